@@ -1,15 +1,55 @@
 import { getApiKey, getApiBaseUrl, getUserId } from './config';
+import type {
+  GenerationOutput,
+  LocalModel,
+  ModelCapability,
+  ResponseFormat,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+  TranscriptSegment,
+} from './providers/types';
+
+/**
+ * A part of a multimodal chat message as sent by the platform. Image parts
+ * carry either a URL (http(s) or data:) or raw base64 data.
+ */
+export type LocalModelContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url?: string; base64?: string; mimeType?: string };
 
 export interface LocalModelRequest {
   id: string;
   organizationId: string;
   modelId: string;
-  requestType: 'llm_chat' | 'image_generation' | 'video_generation';
+  requestType:
+    | 'llm_chat'
+    | 'image_generation'
+    | 'video_generation'
+    | 'embedding'
+    | 'text_to_speech'
+    | 'speech_to_text';
   payload: {
-    messages?: Array<{ role: string; content: string }>;
+    messages?: Array<{
+      role: string;
+      content: string | LocalModelContentPart[];
+      toolCalls?: ToolCall[];
+      toolCallId?: string;
+      name?: string;
+    }>;
     prompt?: string;
+    /** Text to embed — a single string or a batch */
+    input?: string | string[];
+    /**
+     * Audio to transcribe: a URL (http(s) or data:) or raw base64 data
+     */
+    audio?: { url?: string; base64?: string; mimeType?: string };
+    dimensions?: number;
     temperature?: number;
     maxTokens?: number;
+    tools?: ToolDefinition[];
+    toolChoice?: ToolChoice;
+    responseFormat?: ResponseFormat;
     config?: Record<string, unknown>;
   };
   createdAt: number;
@@ -62,12 +102,13 @@ export async function pollForRequest(
 
 /**
  * Submit a progress update for a running request.
- * @param type - 'chunk' for streaming text content, 'log' for raw log lines
+ * @param type - 'chunk' for streaming text content, 'log' for raw log lines,
+ *   'tool_calls' for the JSON-encoded tool calls accumulated so far
  */
 export async function submitProgress(
   requestId: string,
   content: string,
-  type: 'chunk' | 'log' = 'chunk',
+  type: 'chunk' | 'log' | 'tool_calls' | 'preview' = 'chunk',
 ): Promise<void> {
   const baseUrl = getApiBaseUrl();
 
@@ -85,12 +126,46 @@ export async function submitProgress(
   }
 }
 
+export interface StructuredOutputError {
+  /** JSON Pointer to the offending value ('' for the document root) */
+  path: string;
+  message: string;
+}
+
 /**
  * Result for text/chat completions
  */
 export interface TextResult {
   content?: string;
+  /** Tool calls the model made — the caller runs them and continues the chat */
+  toolCalls?: ToolCall[];
+  /**
+   * Set (with success: false) when a structured output request produced text
+   * that isn't valid JSON or doesn't match the requested schema
+   */
+  validationErrors?: StructuredOutputError[];
   usage?: { promptTokens: number; completionTokens: number };
+  timing?: {
+    /** Wall-clock time from start of generation to the last token */
+    totalMs: number;
+    /** Wall-clock time until the first token arrived */
+    timeToFirstTokenMs?: number;
+    /** Provider-measured time spent loading the model */
+    loadMs?: number;
+    /** Provider-measured time spent processing the prompt */
+    promptEvalMs?: number;
+    /** Completion tokens generated per second */
+    tokensPerSecond?: number;
+  };
+}
+
+/**
+ * Result for embedding requests
+ */
+export interface EmbeddingResult {
+  /** One vector per input, in input order */
+  embeddings: number[][];
+  usage?: { promptTokens: number };
 }
 
 /**
@@ -103,6 +178,8 @@ export interface ImageResult {
   mimeType: string;
   /** Seed used for generation */
   seed?: number;
+  /** Every other file the generation produced */
+  additionalOutputs?: GenerationOutput[];
 }
 
 /**
@@ -119,18 +196,61 @@ export interface VideoResult {
   fps?: number;
   /** Seed used for generation */
   seed?: number;
+  /** Every other file the generation produced */
+  additionalOutputs?: GenerationOutput[];
+}
+
+/**
+ * Result for text-to-speech
+ */
+export interface AudioResult {
+  /** Base64-encoded audio data */
+  audioBase64: string;
+  /** MIME type (e.g., "audio/mpeg") */
+  mimeType: string;
+}
+
+/**
+ * Result for speech-to-text
+ */
+export interface TranscriptResult {
+  transcript: string;
+  /** Detected or given language */
+  language?: string;
+  /** Audio duration in seconds */
+  duration?: number;
+  /** Timestamped segments, when the model reports them */
+  segments?: TranscriptSegment[];
 }
 
 /**
  * Combined result type
  */
-export type RequestResult = TextResult | ImageResult | VideoResult;
+export type RequestResult =
+  | TextResult
+  | EmbeddingResult
+  | ImageResult
+  | VideoResult
+  | AudioResult
+  | TranscriptResult;
+
+/**
+ * The local model that handled a request — differs from the requested model
+ * when it was resolved through an alias
+ */
+export interface ServedBy {
+  provider: string;
+  model: string;
+  /** The pooled host that ran the request */
+  host?: string;
+}
 
 export async function submitResult(
   requestId: string,
   success: boolean,
   result?: RequestResult,
   error?: string,
+  servedBy?: ServedBy,
 ): Promise<void> {
   const baseUrl = getApiBaseUrl();
 
@@ -139,7 +259,7 @@ export async function submitResult(
     {
       method: 'POST',
       headers: getHeaders(),
-      body: JSON.stringify({ success, result, error }),
+      body: JSON.stringify({ success, result, error, servedBy }),
     },
   );
 
@@ -151,6 +271,35 @@ export async function submitResult(
   }
 }
 
+/**
+ * Ask the platform which of the given requests were cancelled or abandoned
+ * (e.g. the caller disconnected), so the tunnel can stop working on them.
+ */
+export async function getCancelledRequests(
+  requestIds: string[],
+): Promise<string[]> {
+  const baseUrl = getApiBaseUrl();
+
+  const response = await fetch(
+    `${baseUrl}/v1/local-models/requests/cancelled`,
+    {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ requestIds }),
+    },
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `Cancellation check failed: ${response.status} ${errorText}`,
+    );
+  }
+
+  const data = (await response.json()) as { cancelled: string[] };
+  return data.cancelled;
+}
+
 export async function verifyApiKey(): Promise<boolean> {
   const baseUrl = getApiBaseUrl();
 
@@ -169,13 +318,40 @@ export async function verifyApiKey(): Promise<boolean> {
 export type ModelTypeMindStudio =
   | 'llm_chat'
   | 'image_generation'
-  | 'video_generation';
+  | 'video_generation'
+  | 'embedding'
+  | 'text_to_speech'
+  | 'speech_to_text';
 
 export interface SyncModelEntry {
   name: string;
   provider: string;
   type: ModelTypeMindStudio;
   parameters?: unknown[];
+  /** Accepts image input — only sent for models known to support it */
+  vision?: boolean;
+}
+
+const MODEL_TYPE_MAP: Record<ModelCapability, ModelTypeMindStudio> = {
+  text: 'llm_chat',
+  image: 'image_generation',
+  video: 'video_generation',
+  embedding: 'embedding',
+  speech: 'text_to_speech',
+  transcription: 'speech_to_text',
+};
+
+/**
+ * Describe a discovered local model for syncing
+ */
+export function toSyncModelEntry(model: LocalModel): SyncModelEntry {
+  return {
+    name: model.name,
+    provider: model.provider,
+    type: MODEL_TYPE_MAP[model.capability] || 'llm_chat',
+    parameters: model.parameters,
+    ...(model.vision && { vision: true }),
+  };
 }
 
 export async function syncModels(models: SyncModelEntry[]): Promise<void> {
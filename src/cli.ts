@@ -17,11 +17,26 @@ async function main() {
       logLevel: (getFlag('--log-level') as 'error' | 'warn' | 'info' | 'debug') ?? undefined,
       sandboxBrowser: process.argv.includes('--sandbox-browser'),
     });
+  } else if (process.argv[2] === 'serve') {
+    const { startServe } = await import('./serve.js');
+    const models = getFlag('--models');
+    const drainTimeout = getFlag('--drain-timeout');
+    const gatewayPort = getFlag('--gateway-port');
+    await startServe({
+      models: models ? models.split(',').map((m) => m.trim()).filter(Boolean) : undefined,
+      drainTimeoutMs: drainTimeout ? Number(drainTimeout) * 1000 : undefined,
+      logLevel: (getFlag('--log-level') as 'error' | 'warn' | 'info' | 'debug') ?? undefined,
+      gateway: process.argv.includes('--gateway') || gatewayPort ? true : undefined,
+      gatewayPort: gatewayPort ? Number(gatewayPort) : undefined,
+    });
+  } else if (process.argv[2] && !process.argv[2].startsWith('-')) {
+    const { runCommand } = await import('./commands/index.js');
+    process.exitCode = await runCommand(process.argv.slice(2));
   } else {
     const { startTUI } = await import('./tui/index.js');
     await startTUI();
   }
-  process.exit(0);
+  process.exit();
 }
 
 main();
@@ -0,0 +1,82 @@
+import { requestDeviceAuth, pollDeviceAuth } from '../api';
+import {
+  setApiKey,
+  setUserId,
+  clearApiKey,
+  clearUserId,
+  getEnvironment,
+} from '../config';
+import {
+  ExitCode,
+  printJson,
+  printError,
+  printNote,
+  hasFlag,
+  errorMessage,
+  type CommandHandler,
+} from './types';
+
+const POLL_INTERVAL = 2000;
+// Longer than the TUI allows — over SSH the URL has to be copied elsewhere
+const MAX_ATTEMPTS = 150;
+
+/**
+ * `auth [--no-browser]` — sign in with the device flow. The URL is printed
+ * so it can be opened on another machine when running over SSH.
+ */
+export const handleAuth: CommandHandler = async (args) => {
+  try {
+    const { url, token } = await requestDeviceAuth();
+
+    printNote(`Open this URL to sign in to MindStudio:\n\n  ${url}\n`);
+
+    // Try to open the browser — not fatal if it fails (headless, SSH, etc.)
+    if (!hasFlag(args, '--no-browser') && !process.env.SSH_CONNECTION) {
+      try {
+        const open = (await import('open')).default;
+        await open(url);
+      } catch {
+        // The printed URL is enough
+      }
+    }
+
+    printNote('Waiting for authorization...');
+
+    for (let i = 0; i < MAX_ATTEMPTS; i++) {
+      await new Promise((r) => setTimeout(r, POLL_INTERVAL));
+
+      const result = await pollDeviceAuth(token);
+
+      if (result.status === 'completed' && result.apiKey) {
+        setApiKey(result.apiKey);
+        if (result.userId) {
+          setUserId(result.userId);
+        }
+        printJson({
+          authenticated: true,
+          environment: getEnvironment(),
+          userId: result.userId,
+        });
+        return ExitCode.Ok;
+      }
+
+      if (result.status === 'expired') {
+        return printError('Authorization link expired', ExitCode.Failure);
+      }
+    }
+
+    return printError('Timed out waiting for authorization', ExitCode.Failure);
+  } catch (err) {
+    return printError(errorMessage(err), ExitCode.Failure);
+  }
+};
+
+/**
+ * `logout` — forget the API key for the current environment.
+ */
+export const handleLogout: CommandHandler = async () => {
+  clearApiKey();
+  clearUserId();
+  printJson({ authenticated: false, environment: getEnvironment() });
+  return ExitCode.Ok;
+};
@@ -0,0 +1,130 @@
+import {
+  getEnvironment,
+  setEnvironment,
+  getApiBaseUrl,
+  setApiBaseUrl,
+  setProviderBaseUrl,
+  getOpenAICompatibleInstances,
+  setOpenAICompatibleInstances,
+  type Environment,
+} from '../config';
+import { builtInProviders, getAllProviders, getProvider } from '../providers';
+import { ExitCode, printJson, printError, type CommandHandler } from './types';
+
+const ENVIRONMENTS: readonly Environment[] = ['prod', 'local'];
+
+const PROVIDER_KEY = /^providers\.([^.]+)\.baseUrl$/;
+
+function isEnvironment(value: string): value is Environment {
+  return (ENVIRONMENTS as readonly string[]).includes(value);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Every readable key with its current value. `apiBaseUrl` belongs to the
+ * current environment.
+ */
+function getConfigValues(): Record<string, string> {
+  return {
+    environment: getEnvironment(),
+    apiBaseUrl: getApiBaseUrl(),
+    ...Object.fromEntries(
+      getAllProviders().map((p) => [`providers.${p.name}.baseUrl`, p.baseUrl]),
+    ),
+  };
+}
+
+/**
+ * Point a provider at a new base URL. Registered OpenAI-compatible servers
+ * keep their URL in their own config entry.
+ */
+function setProviderUrl(name: string, url: string): void {
+  if (builtInProviders.some((p) => p.name === name)) {
+    setProviderBaseUrl(name, url);
+    return;
+  }
+  setOpenAICompatibleInstances(
+    getOpenAICompatibleInstances().map((instance) =>
+      instance.name === name ? { ...instance, baseUrl: url } : instance,
+    ),
+  );
+}
+
+function setConfigValue(key: string, value: string): string | null {
+  if (key === 'environment') {
+    if (!isEnvironment(value)) {
+      return `environment must be one of: ${ENVIRONMENTS.join(', ')}`;
+    }
+    setEnvironment(value);
+    return null;
+  }
+
+  if (!isHttpUrl(value)) {
+    return `${key} must be an http(s) URL`;
+  }
+
+  if (key === 'apiBaseUrl') {
+    setApiBaseUrl(value);
+    return null;
+  }
+
+  const match = key.match(PROVIDER_KEY);
+  if (match && getProvider(match[1]!)) {
+    setProviderUrl(match[1]!, value.replace(/\/+$/, ''));
+    return null;
+  }
+
+  return `Unknown config key: ${key}`;
+}
+
+/**
+ * `config get [key]` and `config set <key> <value>`. Keys: `environment`,
+ * `apiBaseUrl`, and `providers.<name>.baseUrl`.
+ */
+export const handleConfig: CommandHandler = async (args) => {
+  const [subcommand, key, value] = args;
+
+  switch (subcommand) {
+    case 'get': {
+      const values = getConfigValues();
+      if (!key) {
+        printJson(values);
+        return ExitCode.Ok;
+      }
+      if (!(key in values)) {
+        return printError(`Unknown config key: ${key}`, ExitCode.Usage);
+      }
+      printJson({ key, value: values[key] });
+      return ExitCode.Ok;
+    }
+
+    case 'set': {
+      if (!key || value === undefined) {
+        return printError(
+          'Usage: mindstudio-local config set <key> <value>',
+          ExitCode.Usage,
+        );
+      }
+      const error = setConfigValue(key, value);
+      if (error) {
+        return printError(error, ExitCode.Usage);
+      }
+      printJson({ key, value: getConfigValues()[key] });
+      return ExitCode.Ok;
+    }
+
+    default:
+      return printError(
+        'Usage: mindstudio-local config <get|set> [key] [value]',
+        ExitCode.Usage,
+      );
+  }
+};
@@ -0,0 +1,39 @@
+import {
+  getEnvironment,
+  setEnvironment,
+  getApiBaseUrl,
+  getApiKey,
+} from '../config';
+import { ExitCode, printJson, printError, type CommandHandler } from './types';
+
+function printEnvironment(): void {
+  printJson({
+    environment: getEnvironment(),
+    apiBaseUrl: getApiBaseUrl(),
+    authenticated: !!getApiKey(),
+  });
+}
+
+/**
+ * `env` shows the current environment; `env use <prod|local>` switches it.
+ * Each environment keeps its own API key.
+ */
+export const handleEnv: CommandHandler = async (args) => {
+  const [subcommand, env] = args;
+
+  if (!subcommand) {
+    printEnvironment();
+    return ExitCode.Ok;
+  }
+
+  if (subcommand !== 'use' || (env !== 'prod' && env !== 'local')) {
+    return printError(
+      'Usage: mindstudio-local env use <prod|local>',
+      ExitCode.Usage,
+    );
+  }
+
+  setEnvironment(env);
+  printEnvironment();
+  return ExitCode.Ok;
+};
@@ -0,0 +1,57 @@
+/**
+ * CLI subcommand router.
+ *
+ * Scriptable alternatives to the TUI: every command writes a single JSON
+ * document to stdout and exits with 0 on success, 1 on failure, and 2 on
+ * usage errors. Human-readable notes (e.g. the sign-in URL) go to stderr.
+ */
+
+import { handleAuth, handleLogout } from './auth';
+import { handleModels } from './models';
+import { handleProviders } from './providers';
+import { handleConfig } from './config';
+import { handleEnv } from './env';
+import { ExitCode, printError } from './types';
+import type { CommandHandler } from './types';
+
+const handlers: Record<string, CommandHandler> = {
+  auth: handleAuth,
+  logout: handleLogout,
+  models: handleModels,
+  providers: handleProviders,
+  config: handleConfig,
+  env: handleEnv,
+};
+
+const USAGE = `Usage: mindstudio-local <command>
+
+Commands:
+  auth [--no-browser]          Sign in to MindStudio
+  logout                       Sign out of the current environment
+  models list                  List local models
+  models sync [--models a,b]   Sync local models to MindStudio
+  providers status             Show provider installation and health
+  config get [key]             Show config values
+  config set <key> <value>     Set environment, apiBaseUrl, or providers.<name>.baseUrl
+  env [use <prod|local>]       Show or switch the environment
+  serve [options]              Run the model tunnel without the TUI`;
+
+/**
+ * Run a subcommand and resolve to its exit code.
+ */
+export async function runCommand(args: string[]): Promise<number> {
+  const [name, ...rest] = args;
+
+  if (name === 'help') {
+    process.stderr.write(USAGE + '\n');
+    return ExitCode.Ok;
+  }
+
+  const handler = name ? handlers[name] : undefined;
+  if (!handler) {
+    process.stderr.write(USAGE + '\n');
+    return printError(`Unknown command: ${name}`, ExitCode.Usage);
+  }
+
+  return handler(rest);
+}
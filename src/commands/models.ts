@@ -0,0 +1,101 @@
+import { getSyncedModels, syncModels, toSyncModelEntry } from '../api';
+import { getApiKey } from '../config';
+import { discoverAllModelsWithParameters } from '../providers';
+import {
+  ExitCode,
+  printJson,
+  printError,
+  getFlag,
+  errorMessage,
+  type CommandHandler,
+} from './types';
+
+function parseModelList(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value
+    .split(',')
+    .map((m) => m.trim())
+    .filter(Boolean);
+}
+
+/**
+ * `models list` — local models from every running provider, with whether
+ * each one is synced when signed in.
+ */
+async function listModels(): Promise<number> {
+  const models = await discoverAllModelsWithParameters();
+
+  let syncedNames: Set<string> | null = null;
+  if (getApiKey()) {
+    try {
+      syncedNames = new Set((await getSyncedModels()).map((m) => m.name));
+    } catch {
+      // Listing local models doesn't need the platform
+    }
+  }
+
+  printJson({
+    models: models.map((m) => ({
+      name: m.name,
+      provider: m.provider,
+      capability: m.capability,
+      ...(m.vision && { vision: true }),
+      ...(m.hosts && { hosts: m.hosts }),
+      ...(syncedNames && { synced: syncedNames.has(m.name) }),
+    })),
+  });
+  return ExitCode.Ok;
+}
+
+/**
+ * `models sync [--models a,b]` — sync discovered models to MindStudio.
+ */
+async function syncLocalModels(args: string[]): Promise<number> {
+  if (!getApiKey()) {
+    return printError(
+      'Not authenticated. Run: mindstudio-local auth',
+      ExitCode.Failure,
+    );
+  }
+
+  const selected = parseModelList(getFlag(args, '--models'));
+  const models = (await discoverAllModelsWithParameters()).filter(
+    (m) => !selected || selected.includes(m.name),
+  );
+  const missing = (selected ?? []).filter(
+    (name) => !models.some((m) => m.name === name),
+  );
+
+  if (models.length === 0) {
+    return printError('No local models to sync', ExitCode.Failure);
+  }
+
+  await syncModels(models.map(toSyncModelEntry));
+  printJson({
+    synced: models.map((m) => m.name),
+    ...(missing.length > 0 && { missing }),
+  });
+  return missing.length > 0 ? ExitCode.Failure : ExitCode.Ok;
+}
+
+/**
+ * `models <list|sync>`
+ */
+export const handleModels: CommandHandler = async (args) => {
+  const [subcommand, ...rest] = args;
+  try {
+    switch (subcommand) {
+      case 'list':
+        return await listModels();
+      case 'sync':
+        return await syncLocalModels(rest);
+      default:
+        return printError(
+          'Usage: mindstudio-local models <list|sync>',
+          ExitCode.Usage,
+        );
+    }
+  } catch (err) {
+    return printError(errorMessage(err), ExitCode.Failure);
+  }
+};
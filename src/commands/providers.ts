@@ -0,0 +1,47 @@
+import { detectAllProviderStatuses } from '../providers';
+import {
+  ExitCode,
+  printJson,
+  printError,
+  errorMessage,
+  type CommandHandler,
+} from './types';
+
+/**
+ * `providers status` — installation and health of every provider.
+ */
+async function providerStatus(): Promise<number> {
+  const statuses = await detectAllProviderStatuses();
+  printJson({
+    providers: statuses.map(({ provider, status }) => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      capabilities: provider.capabilities,
+      baseUrl: provider.baseUrl,
+      installed: status.installed,
+      running: status.running,
+      ...(status.hosts && { hosts: status.hosts }),
+    })),
+  });
+  return ExitCode.Ok;
+}
+
+/**
+ * `providers <status>`
+ */
+export const handleProviders: CommandHandler = async (args) => {
+  const [subcommand] = args;
+  try {
+    switch (subcommand) {
+      case 'status':
+        return await providerStatus();
+      default:
+        return printError(
+          'Usage: mindstudio-local providers status',
+          ExitCode.Usage,
+        );
+    }
+  } catch (err) {
+    return printError(errorMessage(err), ExitCode.Failure);
+  }
+};
@@ -0,0 +1,51 @@
+/**
+ * A CLI subcommand. Receives the arguments after the command name and
+ * resolves to the process exit code.
+ */
+export type CommandHandler = (args: string[]) => Promise<number>;
+
+/** Exit codes shared by every subcommand */
+export const ExitCode = {
+  Ok: 0,
+  /** The command ran but failed (network error, auth denied, ...) */
+  Failure: 1,
+  /** Unknown command, missing argument, or invalid value */
+  Usage: 2,
+} as const;
+
+/**
+ * Write a command's result to stdout as a single JSON document.
+ */
+export function printJson(data: unknown): void {
+  process.stdout.write(JSON.stringify(data, null, 2) + '\n');
+}
+
+/**
+ * Report a failure as JSON on stdout (so scripts parse one format) and
+ * return the exit code to use.
+ */
+export function printError(message: string, code: number): number {
+  printJson({ error: message });
+  return code;
+}
+
+/**
+ * Write a human-readable note to stderr, out of the way of JSON output.
+ */
+export function printNote(message: string): void {
+  process.stderr.write(message + '\n');
+}
+
+export function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  if (idx === -1) return undefined;
+  return args[idx + 1];
+}
+
+export function hasFlag(args: string[], name: string): boolean {
+  return args.includes(name);
+}
+
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
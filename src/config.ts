@@ -11,11 +11,114 @@ interface EnvironmentConfig {
   dbWsUrl: string;
 }
 
+/**
+ * Limits for the model tunnel's request scheduler. Requests beyond these
+ * limits wait in a local FIFO queue; once a provider's queue is full, the
+ * runner stops polling for that provider's models.
+ */
+export interface ConcurrencyLimits {
+  /** Max requests in flight across all providers */
+  maxConcurrent: number;
+  /** Max in-flight requests per provider name (unset = no provider limit) */
+  perProvider: Record<string, number>;
+  /** Max in-flight requests per model capability (unset = no capability limit) */
+  perCapability: Record<string, number>;
+  /** Max requests waiting in the local queue per provider */
+  maxQueuedPerProvider: number;
+}
+
+const DEFAULT_CONCURRENCY: ConcurrencyLimits = {
+  maxConcurrent: 4,
+  perProvider: {},
+  // GPU-bound generation thrashes when jobs overlap
+  perCapability: { image: 1, video: 1 },
+  maxQueuedPerProvider: 8,
+};
+
+/**
+ * A user-registered server that speaks the OpenAI HTTP API (llama.cpp's
+ * llama-server, vLLM, LocalAI, ...). Each entry becomes its own provider.
+ */
+export interface OpenAICompatibleInstance {
+  /** Unique provider name, used in model sync (e.g. "llama-server") */
+  name: string;
+  /** Shown in the TUI — defaults to the name */
+  displayName?: string;
+  /** Base URL including the API prefix (e.g. "http://localhost:8080/v1") */
+  baseUrl: string;
+  apiKey?: string;
+  /**
+   * Header the API key is sent in. Defaults to Authorization, with a
+   * "Bearer " prefix; any other header gets the bare key.
+   */
+  apiKeyHeader?: string;
+  /** What the server's models can do — defaults to ["text"] */
+  capabilities?: Array<'text' | 'embedding' | 'speech' | 'transcription'>;
+}
+
+export interface RequestHistorySettings {
+  /** Keep a local log of model-tunnel requests */
+  enabled: boolean;
+  /** Also log each request's output (generated text, images, ...) */
+  includeOutput: boolean;
+}
+
+// Off by default: entries hold whole conversations and images in plain text
+const DEFAULT_REQUEST_HISTORY: RequestHistorySettings = {
+  enabled: false,
+  includeOutput: false,
+};
+
+export interface GatewaySettings {
+  /** Serve the local OpenAI-compatible gateway while the tunnel runs */
+  enabled: boolean;
+  port: number;
+  /** Interface to bind — keep it on loopback unless the network is trusted */
+  host: string;
+}
+
+const DEFAULT_GATEWAY: GatewaySettings = {
+  enabled: false,
+  port: 8484,
+  host: '127.0.0.1',
+};
+
+/**
+ * How saved ComfyUI workflows are published. Patterns are globs matched
+ * against each workflow's path within the workflows folder (e.g.
+ * `mindstudio/**`); `*` stays within a folder and `**` spans folders.
+ */
+export interface ComfyUISettings {
+  /**
+   * `aggregated` bundles all workflows into one image and one video model;
+   * `perWorkflow` publishes each workflow as its own model
+   */
+  workflowModels: 'aggregated' | 'perWorkflow';
+  /** Only publish workflows matching one of these (empty = all) */
+  include: string[];
+  /** Skip workflows matching any of these */
+  exclude: string[];
+}
+
+const DEFAULT_COMFYUI: ComfyUISettings = {
+  workflowModels: 'aggregated',
+  include: [],
+  exclude: [],
+};
+
 interface ConfigSchema {
   environment: Environment;
   providerBaseUrls: Record<string, string>;
+  providerHosts: Record<string, string[]>;
   providerInstallPaths: Record<string, string>;
   localInterfaces: Record<string, string>;
+  concurrency: ConcurrencyLimits;
+  openaiCompatibleProviders: OpenAICompatibleInstance[];
+  /** Published model name -> local models that serve it, in order */
+  modelAliases: Record<string, string[]>;
+  requestHistory: RequestHistorySettings;
+  gateway: GatewaySettings;
+  comfyui: ComfyUISettings;
   environments: {
     prod: EnvironmentConfig;
     local: EnvironmentConfig;
@@ -29,8 +132,15 @@ export const config = new Conf<ConfigSchema>({
   defaults: {
     environment: 'prod',
     providerBaseUrls: {},
+    providerHosts: {},
     providerInstallPaths: {},
     localInterfaces: {},
+    concurrency: DEFAULT_CONCURRENCY,
+    openaiCompatibleProviders: [],
+    modelAliases: {},
+    requestHistory: DEFAULT_REQUEST_HISTORY,
+    gateway: DEFAULT_GATEWAY,
+    comfyui: DEFAULT_COMFYUI,
     environments: {
       prod: {
         apiBaseUrl: 'https://api.mindstudio.ai',
@@ -127,6 +237,21 @@ export function setProviderBaseUrl(name: string, url: string): void {
   config.set('providerBaseUrls', urls);
 }
 
+/**
+ * Base URLs of every host in a provider's pool. Empty when the provider
+ * talks to a single server (its base URL).
+ */
+export function getProviderHosts(name: string): string[] {
+  const hosts = config.get('providerHosts') ?? {};
+  return hosts[name] ?? [];
+}
+
+export function setProviderHosts(name: string, urls: string[]): void {
+  const hosts = config.get('providerHosts') ?? {};
+  hosts[name] = urls;
+  config.set('providerHosts', hosts);
+}
+
 export function getProviderInstallPath(name: string): string | undefined {
   const paths = config.get('providerInstallPaths');
   return paths[name];
@@ -141,6 +266,71 @@ export function setProviderInstallPath(
   config.set('providerInstallPaths', paths);
 }
 
+// Concurrency helpers
+export function getConcurrencyLimits(): ConcurrencyLimits {
+  // Merge with defaults so hand-edited partial configs still resolve
+  const stored = config.get('concurrency') ?? {};
+  return {
+    ...DEFAULT_CONCURRENCY,
+    ...stored,
+    perProvider: { ...DEFAULT_CONCURRENCY.perProvider, ...stored.perProvider },
+    perCapability: {
+      ...DEFAULT_CONCURRENCY.perCapability,
+      ...stored.perCapability,
+    },
+  };
+}
+
+export function setConcurrencyLimits(limits: Partial<ConcurrencyLimits>): void {
+  config.set('concurrency', { ...getConcurrencyLimits(), ...limits });
+}
+
+// OpenAI-compatible provider helpers
+export function getOpenAICompatibleInstances(): OpenAICompatibleInstance[] {
+  return config.get('openaiCompatibleProviders') ?? [];
+}
+
+export function setOpenAICompatibleInstances(
+  instances: OpenAICompatibleInstance[],
+): void {
+  config.set('openaiCompatibleProviders', instances);
+}
+
+// Model alias helpers
+export function getModelAliases(): Record<string, string[]> {
+  return config.get('modelAliases') ?? {};
+}
+
+export function setModelAlias(name: string, targets: string[]): void {
+  const aliases = getModelAliases();
+  aliases[name] = targets;
+  config.set('modelAliases', aliases);
+}
+
+export function deleteModelAlias(name: string): void {
+  const aliases = getModelAliases();
+  delete aliases[name];
+  config.set('modelAliases', aliases);
+}
+
+// Request history helpers
+export function getRequestHistorySettings(): RequestHistorySettings {
+  const stored = config.get('requestHistory') ?? {};
+  return { ...DEFAULT_REQUEST_HISTORY, ...stored };
+}
+
+// Gateway helpers
+export function getGatewaySettings(): GatewaySettings {
+  const stored = config.get('gateway') ?? {};
+  return { ...DEFAULT_GATEWAY, ...stored };
+}
+
+// ComfyUI helpers
+export function getComfyUISettings(): ComfyUISettings {
+  const stored = config.get('comfyui') ?? {};
+  return { ...DEFAULT_COMFYUI, ...stored };
+}
+
 // Local interface helpers
 export function getLocalInterfacesDir(): string {
   return path.join(os.homedir(), '.mindstudio-local-tunnel', 'interfaces');
@@ -68,6 +68,30 @@ export class NdjsonLog {
     }
   }
 
+  /**
+   * Entries currently in the log, oldest first. Lines that fail to parse
+   * (e.g. a write cut short by a crash) are skipped.
+   */
+  read(): Record<string, unknown>[] {
+    if (this.logPath === null) return [];
+
+    try {
+      const content = fs.readFileSync(this.logPath, 'utf-8');
+      const entries: Record<string, unknown>[] = [];
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // Skip partial lines
+        }
+      }
+      return entries;
+    } catch {
+      return [];
+    }
+  }
+
   close(): void {
     if (this.fd !== null) {
       try {
@@ -103,9 +127,12 @@ export class NdjsonLog {
       // Walk from the newest line backwards, keeping lines until the next one
       // would push us over the byte budget. Always keep at least one line so a
       // single pathologically-large entry doesn't empty the file entirely.
+      // Keep only half the line cap too, or every append past it would
+      // rewrite the whole file.
+      const keepLines = Math.max(1, Math.floor(this.maxLines / 2));
       const kept: string[] = [];
       let bytes = 0;
-      for (let i = lines.length - 1; i >= 0; i--) {
+      for (let i = lines.length - 1; i >= 0 && kept.length < keepLines; i--) {
         const lineBytes = Buffer.byteLength(lines[i], 'utf-8') + 1;
         if (bytes + lineBytes > this.keepBytes && kept.length > 0) break;
         kept.unshift(lines[i]);
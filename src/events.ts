@@ -1,17 +1,53 @@
 import { EventEmitter } from 'events';
+import type { ModelCapability } from './providers/types';
 
 export interface RequestStartEvent {
   id: string;
   modelId: string;
-  requestType: 'llm_chat' | 'image_generation' | 'video_generation';
+  requestType:
+    | 'llm_chat'
+    | 'image_generation'
+    | 'video_generation'
+    | 'embedding'
+    | 'text_to_speech'
+    | 'speech_to_text';
+  /** Local model serving the request, when an alias resolved it */
+  localModel?: string;
+  /** Set for requests that came in through the local gateway */
+  source?: 'gateway';
+  timestamp: number;
+}
+
+export interface RequestQueuedEvent {
+  id: string;
+  modelId: string;
+  requestType:
+    | 'llm_chat'
+    | 'image_generation'
+    | 'video_generation'
+    | 'embedding'
+    | 'text_to_speech'
+    | 'speech_to_text';
+  /** 1-based position in the local queue */
+  position: number;
+  /** Total requests waiting in the local queue */
+  depth: number;
+  /** Set for requests that came in through the local gateway */
+  source?: 'gateway';
   timestamp: number;
 }
 
 export interface RequestProgressEvent {
   id: string;
+  /** The pooled host the request is running on */
+  host?: string;
   content?: string;
   step?: number;
   totalSteps?: number;
+  /** Latest in-progress image (base64 PNG or JPEG) */
+  preview?: string;
+  /** What the backend is doing, e.g. its queue position or the node running */
+  activity?: string;
 }
 
 export interface RequestCompleteEvent {
@@ -20,10 +56,27 @@ export interface RequestCompleteEvent {
   duration: number;
   result?: {
     chars?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    tokensPerSecond?: number;
+    toolCalls?: number;
+    embeddings?: number;
+    dimensions?: number;
     imageSize?: number;
     videoSize?: number;
+    audioSize?: number;
   };
   error?: string;
+  /** True when the request was cancelled rather than failing */
+  cancelled?: boolean;
+}
+
+/** A local model appeared or disappeared while the tunnel was running */
+export interface ModelChangeEvent {
+  name: string;
+  provider: string;
+  capability: ModelCapability;
+  timestamp: number;
 }
 
 class RequestEventEmitter extends EventEmitter {
@@ -31,6 +84,10 @@ class RequestEventEmitter extends EventEmitter {
     this.emit('request:start', event);
   }
 
+  emitQueued(event: RequestQueuedEvent) {
+    this.emit('request:queued', event);
+  }
+
   emitProgress(event: RequestProgressEvent) {
     this.emit('request:progress', event);
   }
@@ -39,11 +96,24 @@ class RequestEventEmitter extends EventEmitter {
     this.emit('request:complete', event);
   }
 
+  emitModelAdded(event: ModelChangeEvent) {
+    this.emit('model:added', event);
+  }
+
+  emitModelRemoved(event: ModelChangeEvent) {
+    this.emit('model:removed', event);
+  }
+
   onStart(handler: (event: RequestStartEvent) => void) {
     this.on('request:start', handler);
     return () => this.off('request:start', handler);
   }
 
+  onQueued(handler: (event: RequestQueuedEvent) => void) {
+    this.on('request:queued', handler);
+    return () => this.off('request:queued', handler);
+  }
+
   onProgress(handler: (event: RequestProgressEvent) => void) {
     this.on('request:progress', handler);
     return () => this.off('request:progress', handler);
@@ -53,6 +123,16 @@ class RequestEventEmitter extends EventEmitter {
     this.on('request:complete', handler);
     return () => this.off('request:complete', handler);
   }
+
+  onModelAdded(handler: (event: ModelChangeEvent) => void) {
+    this.on('model:added', handler);
+    return () => this.off('model:added', handler);
+  }
+
+  onModelRemoved(handler: (event: ModelChangeEvent) => void) {
+    this.on('model:removed', handler);
+    return () => this.off('model:removed', handler);
+  }
 }
 
 export const requestEvents = new RequestEventEmitter();
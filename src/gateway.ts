@@ -0,0 +1,632 @@
+/**
+ * Local OpenAI-compatible Gateway
+ *
+ * One local endpoint for scripts and IDE plugins in front of every
+ * discovered provider. Each request is routed to the provider that owns the
+ * requested model (aliases included) and runs through TunnelRunner, so it
+ * waits in the same queue as MindStudio requests and shows up next to them
+ * in the TUI, the headless event stream, and the request history.
+ *
+ * Endpoints:
+ * - GET  /v1/models
+ * - POST /v1/chat/completions (with `stream: true`)
+ * - POST /v1/embeddings
+ * - POST /v1/images/generations
+ *
+ * @module
+ */
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { TunnelRunner, RequestReporter } from './runner';
+import type {
+  LocalModelRequest,
+  LocalModelContentPart,
+  RequestResult,
+} from './api';
+import {
+  discoverAllModels,
+  resolveLocalModel,
+  type LocalModel,
+  type ModelCapability,
+  type ResponseFormat,
+  type ToolCall,
+  type ToolChoice,
+  type ToolDefinition,
+} from './providers';
+import { getModelAliases } from './config';
+
+/** How long discovered models are reused between requests */
+const MODEL_CACHE_MS = 5000;
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+/** Most images a single generation request may ask for */
+const MAX_IMAGES = 10;
+
+class GatewayError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly type = 'invalid_request_error',
+  ) {
+    super(message);
+  }
+}
+
+interface OpenAIContentPart {
+  type: string;
+  text?: string;
+  image_url?: string | { url: string };
+}
+
+interface OpenAIMessage {
+  role: string;
+  content?: string | OpenAIContentPart[] | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+interface OpenAIChatRequest {
+  model?: string;
+  messages?: OpenAIMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  temperature?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  response_format?:
+    | { type: 'text' | 'json_object' }
+    | {
+        type: 'json_schema';
+        json_schema: { name?: string; schema: Record<string, unknown> };
+      };
+}
+
+interface OpenAIEmbeddingRequest {
+  model?: string;
+  input?: string | string[];
+  dimensions?: number;
+  encoding_format?: 'float' | 'base64';
+}
+
+interface OpenAIImageRequest {
+  model?: string;
+  prompt?: string;
+  n?: number;
+  size?: string;
+  response_format?: 'url' | 'b64_json';
+  // Extensions for local image models
+  negative_prompt?: string;
+  steps?: number;
+  cfg_scale?: number;
+  seed?: number;
+  sampler?: string;
+}
+
+interface RequestOutcome {
+  success: boolean;
+  result?: RequestResult;
+  error?: string;
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, error: unknown): void {
+  const status = error instanceof GatewayError ? error.status : 500;
+  const type = error instanceof GatewayError ? error.type : 'server_error';
+  const message = error instanceof Error ? error.message : String(error);
+  if (res.headersSent) {
+    // Mid-stream: report the error as a final event
+    res.end(`data: ${JSON.stringify({ error: { message, type } })}\n\n`);
+    return;
+  }
+  sendJson(res, status, { error: { message, type } });
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new GatewayError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new GatewayError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function toContentParts(
+  content: OpenAIMessage['content'],
+): string | LocalModelContentPart[] {
+  if (!Array.isArray(content)) return content ?? '';
+  return content.map((part): LocalModelContentPart => {
+    if (part.type === 'text') return { type: 'text', text: part.text ?? '' };
+    if (part.type === 'image_url' && part.image_url) {
+      const url =
+        typeof part.image_url === 'string'
+          ? part.image_url
+          : part.image_url.url;
+      return { type: 'image', url };
+    }
+    throw new GatewayError(400, `Unsupported content part: ${part.type}`);
+  });
+}
+
+function toResponseFormat(
+  format: OpenAIChatRequest['response_format'],
+): ResponseFormat | undefined {
+  switch (format?.type) {
+    case 'json_object':
+      return { type: 'json' };
+    case 'json_schema':
+      return {
+        type: 'json_schema',
+        schema: format.json_schema.schema,
+        name: format.json_schema.name,
+      };
+    default:
+      return undefined;
+  }
+}
+
+function parseSize(size: string | undefined): {
+  width?: number;
+  height?: number;
+} {
+  if (!size) return {};
+  const match = /^(\d+)x(\d+)$/.exec(size);
+  if (!match) {
+    throw new GatewayError(
+      400,
+      `Invalid size "${size}", expected WIDTHxHEIGHT`,
+    );
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+function toUsage(result: RequestResult | undefined) {
+  const usage =
+    result &&
+    'usage' in result &&
+    result.usage &&
+    'completionTokens' in result.usage
+      ? result.usage
+      : { promptTokens: 0, completionTokens: 0 };
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.promptTokens + usage.completionTokens,
+  };
+}
+
+/**
+ * Serves the OpenAI-compatible API on a local port. Requests run through
+ * the given runner whether or not the tunnel itself is connected.
+ */
+export class ModelGateway {
+  private server: http.Server | null = null;
+  private models: LocalModel[] = [];
+  private modelsFetchedAt = 0;
+  /** Unfinished request IDs per HTTP response, cancelled if it closes early */
+  private pendingRequests = new WeakMap<http.ServerResponse, Set<string>>();
+
+  constructor(private readonly runner: TunnelRunner) {}
+
+  /**
+   * Start listening. Resolves to the bound port.
+   */
+  start(port: number, host = '127.0.0.1'): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => sendError(res, err));
+    });
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.removeListener('error', reject);
+        this.server = server;
+        resolve((server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const route = `${req.method} ${pathname.replace(/\/+$/, '')}`;
+
+    switch (route) {
+      case 'GET /v1/models':
+        return sendJson(res, 200, {
+          object: 'list',
+          data: await this.listModels(),
+        });
+      case 'POST /v1/chat/completions':
+        return this.handleChat((await readBody(req)) as OpenAIChatRequest, res);
+      case 'POST /v1/embeddings':
+        return this.handleEmbeddings(
+          (await readBody(req)) as OpenAIEmbeddingRequest,
+          res,
+        );
+      case 'POST /v1/images/generations':
+        return this.handleImages(
+          (await readBody(req)) as OpenAIImageRequest,
+          res,
+        );
+      default:
+        throw new GatewayError(404, `Unknown endpoint: ${route}`);
+    }
+  }
+
+  private async getModels(): Promise<LocalModel[]> {
+    if (Date.now() - this.modelsFetchedAt > MODEL_CACHE_MS) {
+      this.models = await discoverAllModels();
+      this.modelsFetchedAt = Date.now();
+    }
+    return this.models;
+  }
+
+  /**
+   * Every usable local model, plus aliases that currently resolve.
+   */
+  private async listModels() {
+    const models = await this.getModels();
+    const entries = new Map<string, LocalModel>();
+    for (const model of models) {
+      if (!model.statusHint) entries.set(model.name, model);
+    }
+    for (const alias of Object.keys(getModelAliases())) {
+      const local = resolveLocalModel(alias, models);
+      if (local && !entries.has(alias)) entries.set(alias, local);
+    }
+    return [...entries].map(([id, model]) => ({
+      id,
+      object: 'model',
+      created: 0,
+      owned_by: model.provider,
+    }));
+  }
+
+  private async resolveModel(
+    name: string | undefined,
+    capability: ModelCapability,
+  ): Promise<LocalModel> {
+    if (!name) {
+      throw new GatewayError(400, 'Missing "model"');
+    }
+    const model = resolveLocalModel(name, await this.getModels());
+    if (!model) {
+      throw new GatewayError(404, `Model ${name} not found`, 'model_not_found');
+    }
+    if (model.capability !== capability) {
+      throw new GatewayError(
+        400,
+        `Model ${name} is a ${model.capability} model, not ${capability}`,
+      );
+    }
+    return model;
+  }
+
+  /**
+   * Queue a request on the runner and wait for its result. The request is
+   * cancelled if the client disconnects first.
+   */
+  private execute(
+    res: http.ServerResponse,
+    modelName: string,
+    model: LocalModel,
+    requestType: LocalModelRequest['requestType'],
+    payload: LocalModelRequest['payload'],
+    onProgress?: RequestReporter['progress'],
+  ): Promise<RequestOutcome> {
+    const request: LocalModelRequest = {
+      id: `gateway-${randomUUID().slice(0, 8)}`,
+      organizationId: '',
+      modelId: modelName,
+      requestType,
+      payload,
+      createdAt: Date.now(),
+    };
+
+    // The client went away between requests, e.g. while generating `n`
+    // images one at a time
+    if (res.closed && !res.writableFinished) {
+      return Promise.resolve({ success: false, error: 'Request cancelled' });
+    }
+
+    // One close handler per response, however many requests it runs
+    let pending = this.pendingRequests.get(res);
+    if (!pending) {
+      const ids = new Set<string>();
+      res.once('close', () => {
+        if (res.writableFinished) return;
+        for (const id of ids) this.runner.cancelRequest(id);
+      });
+      this.pendingRequests.set(res, ids);
+      pending = ids;
+    }
+    pending.add(request.id);
+
+    return new Promise((resolve) => {
+      this.runner.submitLocal(request, model, {
+        progress: async (content, type) => onProgress?.(content, type),
+        result: async (success, result, error) => {
+          pending.delete(request.id);
+          resolve({ success, result, error });
+        },
+      });
+    });
+  }
+
+  private async handleChat(
+    body: OpenAIChatRequest,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const model = await this.resolveModel(body.model, 'text');
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      throw new GatewayError(400, 'Missing "messages"');
+    }
+
+    const payload: LocalModelRequest['payload'] = {
+      messages: body.messages.map((m) => ({
+        role: m.role,
+        content: toContentParts(m.content),
+        toolCalls: m.tool_calls,
+        toolCallId: m.tool_call_id,
+        name: m.name,
+      })),
+      temperature: body.temperature,
+      maxTokens: body.max_completion_tokens ?? body.max_tokens,
+      tools: body.tools,
+      toolChoice: body.tool_choice,
+      responseFormat: toResponseFormat(body.response_format),
+    };
+
+    const id = `chatcmpl-${randomUUID().replace(/-/g, '')}`;
+    const created = Math.floor(Date.now() / 1000);
+    const modelName = body.model!;
+
+    if (!body.stream) {
+      const outcome = await this.execute(
+        res,
+        modelName,
+        model,
+        'llm_chat',
+        payload,
+      );
+      const result = outcome.result;
+      if (!outcome.success || !result || !('content' in result)) {
+        throw new GatewayError(
+          500,
+          outcome.error ?? 'No result',
+          'server_error',
+        );
+      }
+      const toolCalls = result.toolCalls;
+      return sendJson(res, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model: modelName,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: result.content ?? '',
+              ...(toolCalls?.length && { tool_calls: toolCalls }),
+            },
+            finish_reason: toolCalls?.length ? 'tool_calls' : 'stop',
+          },
+        ],
+        usage: toUsage(result),
+      });
+    }
+
+    const writeChunk = (
+      delta: Record<string, unknown>,
+      finishReason: string | null = null,
+    ) => {
+      res.write(
+        `data: ${JSON.stringify({
+          id,
+          object: 'chat.completion.chunk',
+          created,
+          model: modelName,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        })}\n\n`,
+      );
+    };
+
+    // Headers wait for the first token so early failures get a status code
+    const startStream = () => {
+      if (res.headersSent) return;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      writeChunk({ role: 'assistant', content: '' });
+    };
+
+    // Progress reports carry the full text so far — send only what's new
+    let sent = '';
+    const sendContent = (content: string) => {
+      if (content.length <= sent.length) return;
+      startStream();
+      writeChunk({ content: content.slice(sent.length) });
+      sent = content;
+    };
+
+    const outcome = await this.execute(
+      res,
+      modelName,
+      model,
+      'llm_chat',
+      payload,
+      async (content, type) => {
+        if (type === undefined || type === 'chunk') sendContent(content);
+      },
+    );
+
+    if (!outcome.success) {
+      throw new GatewayError(500, outcome.error ?? 'No result', 'server_error');
+    }
+    const result = outcome.result;
+    const toolCalls =
+      result && 'toolCalls' in result ? result.toolCalls : undefined;
+
+    startStream();
+    if (toolCalls?.length) {
+      writeChunk({
+        tool_calls: toolCalls.map((call, index) => ({ index, ...call })),
+      });
+    }
+    writeChunk({}, toolCalls?.length ? 'tool_calls' : 'stop');
+    if (body.stream_options?.include_usage) {
+      res.write(
+        `data: ${JSON.stringify({
+          id,
+          object: 'chat.completion.chunk',
+          created,
+          model: modelName,
+          choices: [],
+          usage: toUsage(result),
+        })}\n\n`,
+      );
+    }
+    res.end('data: [DONE]\n\n');
+  }
+
+  private async handleEmbeddings(
+    body: OpenAIEmbeddingRequest,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const model = await this.resolveModel(body.model, 'embedding');
+    if (body.input === undefined) {
+      throw new GatewayError(400, 'Missing "input"');
+    }
+
+    const outcome = await this.execute(res, body.model!, model, 'embedding', {
+      input: body.input,
+      dimensions: body.dimensions,
+    });
+    if (
+      !outcome.success ||
+      !outcome.result ||
+      !('embeddings' in outcome.result)
+    ) {
+      throw new GatewayError(500, outcome.error ?? 'No result', 'server_error');
+    }
+
+    const { embeddings, usage } = outcome.result;
+    const promptTokens = usage?.promptTokens ?? 0;
+    sendJson(res, 200, {
+      object: 'list',
+      data: embeddings.map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        embedding:
+          body.encoding_format === 'base64'
+            ? Buffer.from(new Float32Array(embedding).buffer).toString('base64')
+            : embedding,
+      })),
+      model: body.model,
+      usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+    });
+  }
+
+  private async handleImages(
+    body: OpenAIImageRequest,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const model = await this.resolveModel(body.model, 'image');
+    if (!body.prompt) {
+      throw new GatewayError(400, 'Missing "prompt"');
+    }
+    const count = body.n ?? 1;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGES) {
+      throw new GatewayError(400, `"n" must be between 1 and ${MAX_IMAGES}`);
+    }
+
+    const config = {
+      ...parseSize(body.size),
+      negativePrompt: body.negative_prompt,
+      steps: body.steps,
+      cfgScale: body.cfg_scale,
+      seed: body.seed,
+      sampler: body.sampler,
+    };
+
+    // One request per image, so each waits its turn in the queue
+    const data: Array<Record<string, string>> = [];
+    for (let i = 0; i < count; i++) {
+      const outcome = await this.execute(
+        res,
+        body.model!,
+        model,
+        'image_generation',
+        {
+          prompt: body.prompt,
+          config: {
+            ...config,
+            ...(config.seed !== undefined && { seed: config.seed + i }),
+          },
+        },
+      );
+      if (
+        !outcome.success ||
+        !outcome.result ||
+        !('imageBase64' in outcome.result)
+      ) {
+        throw new GatewayError(
+          500,
+          outcome.error ?? 'No result',
+          'server_error',
+        );
+      }
+      const { imageBase64, mimeType } = outcome.result;
+      data.push(
+        body.response_format === 'b64_json'
+          ? { b64_json: imageBase64 }
+          : { url: `data:${mimeType};base64,${imageBase64}` },
+      );
+    }
+
+    sendJson(res, 200, { created: Math.floor(Date.now() / 1000), data });
+  }
+}
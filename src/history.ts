@@ -0,0 +1,95 @@
+/**
+ * Local history of model-tunnel requests, kept in a rotating NDJSON log next
+ * to the config (`.logs/model-requests.ndjson`). Each entry holds the
+ * original request so it can be replayed later.
+ */
+
+import path from 'node:path';
+import { NdjsonLog } from './dev/logging/ndjson-log';
+import { getConfigPath, getRequestHistorySettings } from './config';
+import type {
+  EmbeddingResult,
+  LocalModelRequest,
+  RequestResult,
+  ServedBy,
+  TextResult,
+} from './api';
+
+export type RequestHistoryStatus = 'completed' | 'failed' | 'cancelled';
+
+export interface RequestHistoryEntry {
+  /** When the request finished */
+  ts: number;
+  request: LocalModelRequest;
+  /** Set on replays: the id of the request that was replayed */
+  replayOf?: string;
+  /** The published model name */
+  modelName?: string;
+  /** Which provider, local model, and host served the request */
+  servedBy?: ServedBy;
+  startedAt: number;
+  duration: number;
+  status: RequestHistoryStatus;
+  error?: string;
+  usage?: TextResult['usage'] | EmbeddingResult['usage'];
+  timing?: TextResult['timing'];
+  /** The full result — only when `requestHistory.includeOutput` is set */
+  output?: RequestResult;
+}
+
+export interface RecordRequestInput {
+  request: LocalModelRequest;
+  replayOf?: string;
+  modelName?: string;
+  servedBy?: ServedBy;
+  startedAt: number;
+  duration: number;
+  status: RequestHistoryStatus;
+  error?: string;
+  result?: RequestResult;
+}
+
+// Requests carry whole conversations and images, so allow more room than
+// the dev logs
+const historyLog = new NdjsonLog(
+  'model-requests.ndjson',
+  1000,
+  20 * 1024 * 1024,
+  10 * 1024 * 1024,
+);
+let initialized = false;
+
+function ensureInitialized(): void {
+  if (initialized) return;
+  initialized = true;
+  historyLog.init(path.dirname(getConfigPath()));
+}
+
+export function recordRequest(input: RecordRequestInput): void {
+  const settings = getRequestHistorySettings();
+  if (!settings.enabled) return;
+  ensureInitialized();
+
+  const { result, ...rest } = input;
+  const entry: RequestHistoryEntry = {
+    ts: Date.now(),
+    ...rest,
+    ...(result && 'usage' in result && { usage: result.usage }),
+    ...(result && 'timing' in result && { timing: result.timing }),
+    ...(result && settings.includeOutput && { output: result }),
+  };
+  historyLog.append(entry as unknown as Record<string, unknown>);
+}
+
+/**
+ * Every logged request, newest first.
+ */
+export function readRequestHistory(): RequestHistoryEntry[] {
+  ensureInitialized();
+  return (historyLog.read() as unknown as RequestHistoryEntry[]).reverse();
+}
+
+export function closeRequestHistory(): void {
+  historyLog.close();
+  initialized = false;
+}
@@ -1,2 +1,4 @@
-export { TunnelRunner } from './runner';
+export { TunnelRunner, type TunnelRunnerOptions } from './runner';
 export { startHeadless, type HeadlessOptions } from './headless';
+export { startServe, type ServeOptions } from './serve';
+export { ModelGateway } from './gateway';
@@ -4,10 +4,21 @@ import {
   setProviderBaseUrl,
   getProviderInstallPath,
   setProviderInstallPath,
+  getComfyUISettings,
 } from '../../config';
-import { discoverWorkflows } from './workflow-discovery';
+import {
+  discoverWorkflows,
+  analyzeWorkflowInputs,
+  applyWorkflowInputs,
+  getWorkflowModel,
+} from './workflow-discovery';
 import { ensureConverterInstalled } from './converter-install';
-import { executeWorkflow } from './workflow-executor';
+import { uploadWorkflowMedia, removeUploadedInputs } from './input-upload';
+import {
+  executeWorkflow,
+  type WorkflowExecutionProgress,
+  type WorkflowExecutionResult,
+} from './workflow-executor';
 import readme from './readme.md';
 import type {
   Provider,
@@ -127,33 +138,100 @@ class ComfyUIProvider implements Provider {
    */
   async discoverModels(): Promise<LocalModel[]> {
     const installPath = getProviderInstallPath(this.name) ?? null;
-    return discoverWorkflows(this.getBaseUrl(), installPath);
+    return discoverWorkflows(
+      this.getBaseUrl(),
+      installPath,
+      getComfyUISettings(),
+    );
+  }
+
+  /**
+   * The workflow to run: the one selected in the request for the aggregated
+   * models, or the model's own workflow when each workflow is a model.
+   */
+  private async resolveWorkflow(
+    model: string,
+    workflow: Record<string, unknown> | undefined,
+  ): Promise<Record<string, unknown> | undefined> {
+    if (workflow) return workflow;
+    if (!getWorkflowModel(model)) {
+      // Not discovered in this process yet
+      await this.discoverModels();
+    }
+    return getWorkflowModel(model);
+  }
+
+  /**
+   * Fill in the workflow's inputs from the request — uploading any image
+   * and video inputs first — and run it. Uploaded inputs are removed once
+   * the job is done.
+   */
+  private async runWorkflow(
+    model: string,
+    prompt: string,
+    options: ImageGenerationOptions | VideoGenerationOptions | undefined,
+    onProgress?: (progress: WorkflowExecutionProgress) => void,
+  ): Promise<{ result: WorkflowExecutionResult; seed?: number }> {
+    const selected = await this.resolveWorkflow(model, options?.workflow);
+    if (!selected) {
+      throw new Error('ComfyUI generation requires a workflow');
+    }
+
+    const baseUrl = this.getBaseUrl();
+    const uploaded: string[] = [];
+    try {
+      const values = await uploadWorkflowMedia(
+        baseUrl,
+        analyzeWorkflowInputs(selected).bindings,
+        { ...options?.workflowInputs, prompt },
+        uploaded,
+        options?.signal,
+      );
+      const { workflow, seed } = applyWorkflowInputs(selected, values);
+
+      const result = await executeWorkflow({
+        baseUrl,
+        workflow,
+        onProgress,
+        signal: options?.signal,
+      });
+      return { result, seed };
+    } finally {
+      removeUploadedInputs(uploaded, getProviderInstallPath(this.name));
+    }
   }
 
   /**
    * Generate an image using a ComfyUI workflow, with progress tracking.
    */
   async generateImage(
-    _model: string,
-    _prompt: string,
+    model: string,
+    prompt: string,
     options?: ImageGenerationOptions,
     onProgress?: (progress: ImageGenerationProgress) => void,
   ): Promise<ImageGenerationResult> {
-    if (!options?.workflow) {
-      throw new Error('ComfyUI image generation requires a workflow');
-    }
-
-    const result = await executeWorkflow({
-      baseUrl: this.getBaseUrl(),
-      workflow: options.workflow,
-      onProgress: onProgress
-        ? (p) => onProgress({ step: p.step, totalSteps: p.totalSteps })
+    const { result, seed } = await this.runWorkflow(
+      model,
+      prompt,
+      options,
+      onProgress
+        ? (p) =>
+            onProgress({
+              step: p.step,
+              totalSteps: p.totalSteps,
+              preview: p.preview,
+              activity: p.activity,
+            })
         : undefined,
-    });
+    );
 
     return {
       imageBase64: result.dataBase64,
       mimeType: result.mimeType,
+      seed,
+      ...(result.additionalOutputs.length > 0 && {
+        additionalOutputs: result.additionalOutputs,
+      }),
     };
   }
 
@@ -161,31 +239,34 @@ class ComfyUIProvider implements Provider {
    * Generate a video using a ComfyUI workflow.
    */
   async generateVideo(
-    _model: string,
-    _prompt: string,
+    model: string,
+    prompt: string,
     options?: VideoGenerationOptions,
     onProgress?: (progress: VideoGenerationProgress) => void,
   ): Promise<VideoGenerationResult> {
-    if (!options?.workflow) {
-      throw new Error('ComfyUI video generation requires a workflow');
-    }
-
-    const result = await executeWorkflow({
-      baseUrl: this.getBaseUrl(),
-      workflow: options.workflow,
-      onProgress: onProgress
+    const { result, seed } = await this.runWorkflow(
+      model,
+      prompt,
+      options,
+      onProgress
         ? (p) =>
             onProgress({
               step: p.step,
               totalSteps: p.totalSteps,
               currentNode: p.currentNode,
+              preview: p.preview,
+              activity: p.activity,
             })
         : undefined,
-    });
+    );
 
     return {
       videoBase64: result.dataBase64,
       mimeType: result.mimeType,
+      seed,
+      ...(result.additionalOutputs.length > 0 && {
+        additionalOutputs: result.additionalOutputs,
+      }),
     };
   }
 }
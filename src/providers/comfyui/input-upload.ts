@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { downloadMedia } from '../utils';
+import type { WorkflowInputBinding } from './workflow-discovery';
+
+// Uploads go in their own subfolder of ComfyUI's input folder, so they're
+// easy to tell apart from the user's own files
+const UPLOAD_SUBFOLDER = 'mindstudio';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/quicktime': '.mov',
+};
+
+function isMediaUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^(https?:|data:)/.test(value);
+}
+
+function getExtension(url: string, mimeType: string): string {
+  if (EXTENSIONS[mimeType]) return EXTENSIONS[mimeType];
+  if (url.startsWith('data:')) return '';
+  try {
+    return path.extname(new URL(url).pathname).toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Upload a file through ComfyUI's `/upload/image` endpoint, which takes
+ * videos as well. Returns the name LoadImage-style nodes refer to it by.
+ */
+async function uploadInput(
+  baseUrl: string,
+  data: Buffer,
+  filename: string,
+  mimeType: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const form = new FormData();
+  form.append(
+    'image',
+    new Blob([new Uint8Array(data)], { type: mimeType }),
+    filename,
+  );
+  form.append('subfolder', UPLOAD_SUBFOLDER);
+  form.append('type', 'input');
+  form.append('overwrite', 'true');
+
+  const response = await fetch(`${baseUrl}/upload/image`, {
+    method: 'POST',
+    body: form,
+    signal: signal
+      ? AbortSignal.any([signal, AbortSignal.timeout(60000)])
+      : AbortSignal.timeout(60000),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `ComfyUI upload failed: ${response.status} ${await response.text()}`,
+    );
+  }
+
+  const result = (await response.json()) as {
+    name: string;
+    subfolder?: string;
+  };
+  return result.subfolder ? `${result.subfolder}/${result.name}` : result.name;
+}
+
+/**
+ * Download the image and video URLs given for the workflow's media inputs
+ * and upload them to ComfyUI. Returns the values with each URL replaced by
+ * the uploaded file's name; values that aren't URLs are left alone, as they
+ * name files already in the input folder. Uploaded names are added to
+ * `uploaded` as they go, so a failure part way can still be cleaned up.
+ */
+export async function uploadWorkflowMedia(
+  baseUrl: string,
+  bindings: WorkflowInputBinding[],
+  values: Record<string, unknown>,
+  uploaded: string[],
+  signal?: AbortSignal,
+): Promise<Record<string, unknown>> {
+  const result = { ...values };
+  const prefix = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  for (const { variable, media } of bindings) {
+    const url = values[variable];
+    if (!media || !isMediaUrl(url)) continue;
+
+    const { data, mimeType } = await downloadMedia(url, signal);
+    const filename = `${prefix}_${variable}${getExtension(url, mimeType)}`;
+    const name = await uploadInput(baseUrl, data, filename, mimeType, signal);
+    result[variable] = name;
+    uploaded.push(name);
+  }
+
+  return result;
+}
+
+/**
+ * Delete uploaded inputs once the job is done. ComfyUI has no API for
+ * this, so it only happens when its install folder is known locally.
+ */
+export function removeUploadedInputs(
+  uploaded: string[],
+  installPath?: string,
+): void {
+  if (!installPath) return;
+  for (const name of uploaded) {
+    try {
+      fs.unlinkSync(path.join(installPath, 'input', ...name.split('/')));
+    } catch {
+      // Already gone, or the folder isn't where we expect
+    }
+  }
+}
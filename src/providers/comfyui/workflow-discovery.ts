@@ -1,6 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { LocalModel, ComfyWorkflowParameterSchema } from '../types';
+import type { ComfyUISettings } from '../../config';
+import type {
+  LocalModel,
+  ComfyWorkflowOptions,
+  ComfyWorkflowParameterSchema,
+  ParameterSchema,
+} from '../types';
 import {
   ensureConverterInstalled,
   isConverterEndpointAvailable,
@@ -11,14 +17,79 @@ import {
 const VIDEO_OUTPUT_NODES = ['VHS_VideoCombine', 'SaveVideo'];
 const IMAGE_OUTPUT_NODES = ['SaveImage', 'PreviewImage'];
 
+// Nodes whose inputs are mapped to request parameters automatically
+const TEXT_ENCODE_NODES = ['CLIPTextEncode'];
+const SAMPLER_NODES: Record<string, { seed: string }> = {
+  KSampler: { seed: 'seed' },
+  KSamplerAdvanced: { seed: 'noise_seed' },
+};
+const LATENT_NODES = [
+  'EmptyLatentImage',
+  'EmptySD3LatentImage',
+  'EmptyHunyuanLatentVideo',
+  'EmptyLTXVLatentVideo',
+  'EmptyMochiLatentVideo',
+];
+// Media loaders and the input holding the file name
+const LOAD_MEDIA_NODES: Record<
+  string,
+  { media: 'image' | 'video'; input: string }
+> = {
+  LoadImage: { media: 'image', input: 'image' },
+  VHS_LoadVideo: { media: 'video', input: 'video' },
+};
+
+// Inputs a titled node binds when its tag doesn't name one
+const TAGGED_INPUT_PREFERENCE = [
+  'text',
+  'value',
+  'seed',
+  'noise_seed',
+  'image',
+  'video',
+  'string',
+];
+
+/** A node input that takes its value from a request parameter */
+export interface WorkflowInputBinding {
+  variable: string;
+  nodeId: string;
+  input: string;
+  /** Set for media loaders — the value is a URL to upload first */
+  media?: 'image' | 'video';
+}
+
+export interface WorkflowInputs {
+  bindings: WorkflowInputBinding[];
+  /** Parameters for the bound inputs — the prompt itself isn't listed */
+  parameters: ParameterSchema[];
+}
+
+// Workflows published as their own models, by model name. Requests for these
+// models don't carry the workflow, so it's looked up here.
+const workflowModels = new Map<string, Record<string, unknown>>();
+
+/**
+ * The API-format workflow behind a per-workflow model, from the last
+ * discovery.
+ */
+export function getWorkflowModel(
+  name: string,
+): Record<string, unknown> | undefined {
+  return workflowModels.get(name);
+}
+
 /**
- * Discover user-saved ComfyUI workflows and return them as aggregated LocalModel entries.
- * Returns at most 2 models: "ComfyUI Image Generation" and "ComfyUI Video Generation",
- * with all discovered workflows bundled in the parameter schema.
+ * Discover user-saved ComfyUI workflows and return them as LocalModel entries.
+ * In aggregated mode, returns at most 2 models: "ComfyUI Image Generation" and
+ * "ComfyUI Video Generation", with all discovered workflows bundled in the
+ * parameter schema. In per-workflow mode, each workflow is its own model,
+ * named by its path in the workflows folder.
  */
 export async function discoverWorkflows(
   baseUrl: string,
   installPath: string | null,
+  settings: ComfyUISettings,
 ): Promise<LocalModel[]> {
   resetConverterCache();
 
@@ -38,12 +109,14 @@ export async function discoverWorkflows(
   const needsRestart = converterJustInstalled && !converterAvailable;
 
   // List workflow files
-  const workflowFiles = await listWorkflowFiles(baseUrl, installPath);
+  const workflowFiles = (await listWorkflowFiles(baseUrl, installPath)).filter(
+    (file) => isWorkflowIncluded(file, settings),
+  );
 
   // Collect converted workflows and unconverted counts per capability
   const converted: {
-    image: Array<{ name: string; workflow: Record<string, unknown> }>;
-    video: Array<{ name: string; workflow: Record<string, unknown> }>;
+    image: ComfyWorkflowOptions['availableWorkflows'];
+    video: ComfyWorkflowOptions['availableWorkflows'];
   } = { image: [], video: [] };
   const unconvertedCapabilities = new Set<'image' | 'video'>();
 
@@ -69,18 +142,35 @@ export async function discoverWorkflows(
       }
 
       const capability = detectCapability(apiWorkflow);
-      const name = path.basename(file, path.extname(file));
-      converted[capability].push({ name, workflow: apiWorkflow });
+      const name =
+        settings.workflowModels === 'perWorkflow'
+          ? toPosix(file).replace(/\.json$/, '')
+          : path.basename(file, path.extname(file));
+      const { parameters } = analyzeWorkflowInputs(apiWorkflow);
+      converted[capability].push({ name, workflow: apiWorkflow, parameters });
     } catch {
       // Silent failure per-workflow — one broken workflow doesn't block others
     }
   }
 
   const models: LocalModel[] = [];
+  workflowModels.clear();
+
+  if (settings.workflowModels === 'perWorkflow') {
+    for (const capability of ['image', 'video'] as const) {
+      for (const { name, workflow, parameters } of converted[capability]) {
+        workflowModels.set(name, workflow);
+        models.push({ name, provider: 'comfyui', capability, parameters });
+      }
+    }
+  }
 
   // Emit aggregated models for each capability that has converted workflows
   for (const capability of ['image', 'video'] as const) {
-    if (converted[capability].length > 0) {
+    if (
+      converted[capability].length > 0 &&
+      settings.workflowModels !== 'perWorkflow'
+    ) {
       const displayName =
         capability === 'image'
           ? 'ComfyUI Image Generation'
@@ -122,6 +212,43 @@ export async function discoverWorkflows(
   return models;
 }
 
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Convert a workflow path glob to a regex: `**` spans folders, `*` and `?`
+ * stay within one, and a trailing `/` matches everything in the folder.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const glob = pattern.endsWith('/') ? `${pattern}**` : pattern;
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no folders at all
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function isWorkflowIncluded(file: string, settings: ComfyUISettings): boolean {
+  const filePath = toPosix(file);
+  const matches = (pattern: string) => globToRegExp(pattern).test(filePath);
+  if (settings.include.length > 0 && !settings.include.some(matches)) {
+    return false;
+  }
+  return !settings.exclude.some(matches);
+}
+
 /**
  * List workflow files via the ComfyUI userdata API, falling back to filesystem.
  */
@@ -269,3 +396,287 @@ export function detectCapability(
   // Default to image if we can't determine
   return 'image';
 }
+
+interface ApiNode {
+  class_type: string;
+  inputs?: Record<string, unknown>;
+  _meta?: { title?: string };
+}
+
+function getNodes(
+  apiWorkflow: Record<string, unknown>,
+): Array<[string, ApiNode]> {
+  return Object.entries(apiWorkflow)
+    .filter(
+      (entry): entry is [string, ApiNode] =>
+        typeof entry[1] === 'object' &&
+        entry[1] !== null &&
+        'class_type' in entry[1],
+    )
+    .sort(([a], [b]) => Number(a) - Number(b) || a.localeCompare(b));
+}
+
+/** Links to other nodes are `[nodeId, outputIndex]` pairs */
+function isLink(value: unknown): value is [string, number] {
+  return (
+    Array.isArray(value) && value.length === 2 && typeof value[0] === 'string'
+  );
+}
+
+/**
+ * Follow a conditioning link upstream (through ControlNet and similar nodes)
+ * to the text encoder that produced it.
+ */
+function findTextEncoder(
+  nodes: Map<string, ApiNode>,
+  link: unknown,
+  depth = 0,
+): string | undefined {
+  if (!isLink(link) || depth > 5) return undefined;
+  const node = nodes.get(link[0]);
+  if (!node) return undefined;
+  if (TEXT_ENCODE_NODES.includes(node.class_type)) return link[0];
+  const inputs = node.inputs ?? {};
+  const next =
+    inputs.conditioning ??
+    inputs.positive ??
+    Object.values(inputs).find(isLink);
+  return findTextEncoder(nodes, next, depth + 1);
+}
+
+/**
+ * Parse a title tag: `$variable` binds the node's main input, and
+ * `$variable.input` a specific one.
+ */
+function parseTitleTag(
+  node: ApiNode,
+): { variable: string; input?: string } | undefined {
+  const match = node._meta?.title?.trim().match(/^\$(\w+)(?:\.(\w+))?$/);
+  if (!match) return undefined;
+  return { variable: match[1]!, input: match[2] };
+}
+
+function humanize(variable: string): string {
+  const words = variable
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function describeInput(
+  variable: string,
+  value: unknown,
+  classType: string,
+): ParameterSchema {
+  const defaultValue = value === undefined ? undefined : String(value);
+  switch (variable) {
+    case 'negativePrompt':
+      return {
+        type: 'text',
+        label: 'Negative Prompt',
+        variable,
+        helpText: "Things you don't want in the image",
+        defaultValue,
+      };
+    case 'seed':
+      return {
+        type: 'seed',
+        label: 'Seed',
+        variable,
+        helpText:
+          "A specific value used to guide the 'randomness' of generation. Use -1 for random.",
+        defaultValue: '-1',
+      };
+    case 'steps':
+      return {
+        type: 'number',
+        label: 'Steps',
+        variable,
+        helpText:
+          'Number of denoising steps. More steps = higher quality but slower.',
+        defaultValue,
+        numberOptions: { min: 1, max: 150, step: 1 },
+      };
+    case 'cfgScale':
+      return {
+        type: 'number',
+        label: 'CFG Scale',
+        variable,
+        helpText:
+          'How strongly the image should follow the prompt. Higher = more literal.',
+        defaultValue,
+        numberOptions: { min: 1, max: 30, step: 0.5 },
+      };
+    case 'width':
+    case 'height':
+      return {
+        type: 'number',
+        label: humanize(variable),
+        variable,
+        defaultValue,
+        numberOptions: { min: 64, max: 4096, step: 8 },
+      };
+  }
+
+  const loader = LOAD_MEDIA_NODES[classType];
+  if (loader?.media === 'image') {
+    return {
+      type: 'imageUrl',
+      label: humanize(variable),
+      variable,
+      helpText: 'Image to load into the workflow',
+    };
+  }
+  if (loader?.media === 'video') {
+    return {
+      type: 'videoUrl',
+      label: humanize(variable),
+      variable,
+      helpText: 'Video to load into the workflow',
+    };
+  }
+  if (typeof value === 'number') {
+    return {
+      type: 'number',
+      label: humanize(variable),
+      variable,
+      defaultValue,
+    };
+  }
+  return { type: 'text', label: humanize(variable), variable, defaultValue };
+}
+
+/**
+ * Find the workflow inputs a request can set: prompts from the text encoders
+ * feeding the first sampler, its seed/steps/CFG, the latent size and any
+ * image and video loaders. Nodes titled `$variable` (or `$variable.input`)
+ * are bound as given and take precedence over the automatic mapping.
+ */
+export function analyzeWorkflowInputs(
+  apiWorkflow: Record<string, unknown>,
+): WorkflowInputs {
+  const entries = getNodes(apiWorkflow);
+  const nodes = new Map(entries);
+  const bindings: WorkflowInputBinding[] = [];
+  const parameters: ParameterSchema[] = [];
+
+  const bind = (variable: string, nodeId: string, input: string) => {
+    const node = nodes.get(nodeId);
+    const value = node?.inputs?.[input];
+    if (!node || isLink(value)) return;
+    if (bindings.some((b) => b.variable === variable)) return;
+    // One variable per input, so two values never fight over it
+    if (bindings.some((b) => b.nodeId === nodeId && b.input === input)) return;
+    const loader = LOAD_MEDIA_NODES[node.class_type];
+    bindings.push({
+      variable,
+      nodeId,
+      input,
+      ...(loader?.input === input && { media: loader.media }),
+    });
+    if (variable !== 'prompt') {
+      parameters.push(describeInput(variable, value, node.class_type));
+    }
+  };
+
+  // Tagged nodes first, so they win over the automatic mapping
+  const tagged = new Set<string>();
+  for (const [nodeId, node] of entries) {
+    const tag = parseTitleTag(node);
+    if (!tag) continue;
+    const inputs = node.inputs ?? {};
+    const widgets = Object.keys(inputs).filter((key) => !isLink(inputs[key]));
+    const input =
+      tag.input ??
+      TAGGED_INPUT_PREFERENCE.find((key) => widgets.includes(key)) ??
+      (widgets.length === 1 ? widgets[0] : undefined);
+    if (!input) continue;
+    bind(tag.variable, nodeId, input);
+    tagged.add(nodeId);
+  }
+
+  const untagged = entries.filter(([nodeId]) => !tagged.has(nodeId));
+
+  const sampler = untagged.find(([, node]) => node.class_type in SAMPLER_NODES);
+  if (sampler) {
+    const [nodeId, node] = sampler;
+    const positive = findTextEncoder(nodes, node.inputs?.positive);
+    const negative = findTextEncoder(nodes, node.inputs?.negative);
+    if (positive && !tagged.has(positive)) bind('prompt', positive, 'text');
+    if (negative && negative !== positive && !tagged.has(negative)) {
+      bind('negativePrompt', negative, 'text');
+    }
+    bind('seed', nodeId, SAMPLER_NODES[node.class_type]!.seed);
+    bind('steps', nodeId, 'steps');
+    bind('cfgScale', nodeId, 'cfg');
+  }
+
+  // Without a recognizable sampler, assume the first text encoder is the prompt
+  if (!sampler) {
+    const encoder = untagged.find(([, node]) =>
+      TEXT_ENCODE_NODES.includes(node.class_type),
+    );
+    if (encoder) bind('prompt', encoder[0], 'text');
+  }
+
+  const latent = untagged.find(([, node]) =>
+    LATENT_NODES.includes(node.class_type),
+  );
+  if (latent) {
+    bind('width', latent[0], 'width');
+    bind('height', latent[0], 'height');
+  }
+
+  // Numbered by kind: image, image2, ..., video, video2, ...
+  const loaderCounts = { image: 0, video: 0 };
+  for (const [nodeId, node] of untagged) {
+    const loader = LOAD_MEDIA_NODES[node.class_type];
+    if (!loader) continue;
+    const n = ++loaderCounts[loader.media];
+    bind(n === 1 ? loader.media : `${loader.media}${n}`, nodeId, loader.input);
+  }
+
+  return { bindings, parameters };
+}
+
+/**
+ * Return a copy of the workflow with request values written into its bound
+ * inputs. Missing and empty values keep the workflow's own; a missing or -1
+ * seed is randomized so repeated runs differ.
+ */
+export function applyWorkflowInputs(
+  apiWorkflow: Record<string, unknown>,
+  values: Record<string, unknown>,
+): { workflow: Record<string, unknown>; seed?: number } {
+  const workflow = structuredClone(apiWorkflow);
+  const { bindings } = analyzeWorkflowInputs(workflow);
+  let seed: number | undefined;
+
+  for (const { variable, nodeId, input } of bindings) {
+    const inputs = (workflow[nodeId] as ApiNode).inputs!;
+    let value = values[variable];
+
+    if (variable === 'seed') {
+      const requested = Number(value);
+      seed =
+        value === undefined ||
+        value === '' ||
+        !Number.isFinite(requested) ||
+        requested < 0
+          ? Math.floor(Math.random() * 2 ** 32)
+          : requested;
+      inputs[input] = seed;
+      continue;
+    }
+
+    if (value === undefined || value === null || value === '') continue;
+    // Number inputs arrive as strings from some clients
+    if (typeof inputs[input] === 'number' && typeof value === 'string') {
+      value = Number(value);
+      if (!Number.isFinite(value)) continue;
+    }
+    inputs[input] = value;
+  }
+
+  return { workflow, ...(seed !== undefined && { seed }) };
+}
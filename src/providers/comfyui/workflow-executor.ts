@@ -1,17 +1,28 @@
 import * as path from 'path';
+import type { GenerationOutput } from '../types';
 
 export interface WorkflowExecutionResult {
   dataBase64: string;
   mimeType: string;
   filename: string;
+  /** Every other output file, in node order */
+  additionalOutputs: GenerationOutput[];
 }
 
 export interface WorkflowExecutionProgress {
   step: number;
   totalSteps: number;
   currentNode?: string;
+  /** What ComfyUI is doing — the queue position or the node running */
+  activity?: string;
+  /** Latest sampler preview (base64 JPEG or PNG) */
+  preview?: string;
 }
 
+// Binary WebSocket frame types
+const PREVIEW_IMAGE = 1;
+const PREVIEW_IMAGE_WITH_METADATA = 4;
+
 interface OutputFile {
   filename: string;
   subfolder: string;
@@ -19,15 +30,19 @@ interface OutputFile {
 }
 
 /**
- * Execute an arbitrary workflow on ComfyUI and return the first output.
+ * Execute an arbitrary workflow on ComfyUI and return all of its outputs,
+ * with the first video (or failing that, the first image) as the main one.
  * Handles: POST /prompt → WebSocket progress → GET /history → GET /view
  */
 export async function executeWorkflow(options: {
   baseUrl: string;
   workflow: Record<string, unknown>;
   onProgress?: (progress: WorkflowExecutionProgress) => void;
+  /** Removes the prompt from the queue / interrupts it when aborted */
+  signal?: AbortSignal;
 }): Promise<WorkflowExecutionResult> {
-  const { baseUrl, workflow, onProgress } = options;
+  const { baseUrl, workflow, onProgress, signal } = options;
+  signal?.throwIfAborted();
 
   const clientId = `mindstudio_${Date.now()}_${Math.random().toString(36).slice(2)}`;
   const wsUrl = baseUrl.replace(/^http/, 'ws') + `/ws?clientId=${clientId}`;
@@ -66,8 +81,23 @@ export async function executeWorkflow(options: {
 
   const promptId = submitResult.prompt_id;
 
-  // Wait for completion via WebSocket
-  await waitForCompletion(wsUrl, promptId, onProgress);
+  // Wait for completion via WebSocket, cancelling the prompt on abort
+  const onAbort = () => {
+    cancelPrompt(baseUrl, promptId).catch(() => {});
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    await waitForCompletion({
+      baseUrl,
+      wsUrl,
+      promptId,
+      workflow,
+      onProgress,
+      signal,
+    });
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
 
   // Fetch history
   const historyResponse = await fetch(`${baseUrl}/history/${promptId}`, {
@@ -82,15 +112,7 @@ export async function executeWorkflow(options: {
 
   const history = (await historyResponse.json()) as Record<
     string,
-    {
-      outputs: Record<
-        string,
-        {
-          images?: OutputFile[];
-          gifs?: OutputFile[];
-        }
-      >;
-    }
+    { outputs: Record<string, Record<string, unknown>> }
   >;
 
   const promptHistory = history[promptId];
@@ -98,28 +120,86 @@ export async function executeWorkflow(options: {
     throw new Error('No result found in ComfyUI history');
   }
 
-  // Scan ALL output nodes — prefer gifs (video) over images
-  let outputFile: OutputFile | null = null;
+  const files = collectOutputFiles(promptHistory.outputs);
+  if (files.length === 0) {
+    throw new Error('No output files found in ComfyUI result');
+  }
 
-  for (const nodeOutputs of Object.values(promptHistory.outputs)) {
-    if (nodeOutputs.gifs && nodeOutputs.gifs.length > 0) {
-      outputFile = nodeOutputs.gifs[0]!;
-      break; // Prefer video output
-    }
-    if (!outputFile && nodeOutputs.images && nodeOutputs.images.length > 0) {
-      outputFile = nodeOutputs.images[0]!;
-    }
+  // Prefer video output (including animated GIFs) as the main result
+  const main =
+    files.find((f) => f.kind === 'video' || f.mimeType === 'image/gif') ??
+    files.find((f) => f.kind === 'image') ??
+    files[0]!;
+
+  const outputs: GenerationOutput[] = [];
+  for (const file of files) {
+    outputs.push({
+      dataBase64: await downloadOutputFile(baseUrl, file),
+      mimeType: file.mimeType,
+      type: file.kind,
+      nodeId: file.nodeId,
+      filename: file.filename,
+    });
   }
 
-  if (!outputFile) {
-    throw new Error('No output files found in ComfyUI result');
+  const mainOutput = outputs[files.indexOf(main)]!;
+  return {
+    dataBase64: mainOutput.dataBase64,
+    mimeType: mainOutput.mimeType,
+    filename: main.filename,
+    additionalOutputs: outputs.filter((o) => o !== mainOutput),
+  };
+}
+
+interface CollectedFile extends OutputFile {
+  nodeId: string;
+  mimeType: string;
+  kind: GenerationOutput['type'];
+}
+
+/**
+ * Every file in a prompt's history outputs. Nodes list files under keys
+ * like `images`, `gifs`, or `audio`. Temp files (from PreviewImage) are
+ * only included when nothing was saved.
+ */
+function collectOutputFiles(
+  outputs: Record<string, Record<string, unknown>>,
+): CollectedFile[] {
+  const files: CollectedFile[] = [];
+  const nodeIds = Object.keys(outputs).sort(
+    (a, b) => Number(a) - Number(b) || a.localeCompare(b),
+  );
+
+  for (const nodeId of nodeIds) {
+    for (const value of Object.values(outputs[nodeId]!)) {
+      if (!Array.isArray(value)) continue;
+      for (const item of value) {
+        if (typeof item !== 'object' || item === null) continue;
+        const file = item as OutputFile;
+        if (typeof file.filename !== 'string') continue;
+        const mimeType = getMimeType(path.extname(file.filename).toLowerCase());
+        files.push({
+          ...file,
+          nodeId,
+          mimeType,
+          kind: getOutputKind(mimeType),
+        });
+      }
+    }
   }
 
-  // Download the output file
+  const saved = files.filter((f) => f.type !== 'temp');
+  return saved.length > 0 ? saved : files;
+}
+
+async function downloadOutputFile(
+  baseUrl: string,
+  file: OutputFile,
+): Promise<string> {
   const fileUrl = new URL(`${baseUrl}/view`);
-  fileUrl.searchParams.set('filename', outputFile.filename);
-  fileUrl.searchParams.set('subfolder', outputFile.subfolder || '');
-  fileUrl.searchParams.set('type', outputFile.type || 'output');
+  fileUrl.searchParams.set('filename', file.filename);
+  fileUrl.searchParams.set('subfolder', file.subfolder || '');
+  fileUrl.searchParams.set('type', file.type || 'output');
 
   const fileResponse = await fetch(fileUrl.toString(), {
     signal: AbortSignal.timeout(60000),
@@ -129,17 +209,61 @@ export async function executeWorkflow(options: {
     throw new Error(`Failed to download output file: ${fileResponse.status}`);
   }
 
-  const fileBuffer = await fileResponse.arrayBuffer();
-  const dataBase64 = Buffer.from(fileBuffer).toString('base64');
+  return Buffer.from(await fileResponse.arrayBuffer()).toString('base64');
+}
+
+/**
+ * Cancel a submitted prompt. Pending prompts are deleted from the queue; if
+ * the prompt is already executing it is interrupted. /interrupt stops
+ * whatever is running, so only call it when the running prompt is ours.
+ */
+async function cancelPrompt(baseUrl: string, promptId: string): Promise<void> {
+  await fetch(`${baseUrl}/queue`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ delete: [promptId] }),
+    signal: AbortSignal.timeout(5000),
+  });
+
+  const queueResponse = await fetch(`${baseUrl}/queue`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!queueResponse.ok) return;
 
-  const ext = path.extname(outputFile.filename).toLowerCase();
-  const mimeType = getMimeType(ext);
+  // queue_running entries are [number, prompt_id, prompt, extra_data, outputs]
+  const queue = (await queueResponse.json()) as {
+    queue_running?: Array<[number, string, ...unknown[]]>;
+  };
+  const isRunning = (queue.queue_running ?? []).some(
+    (entry) => entry[1] === promptId,
+  );
+  if (!isRunning) return;
 
-  return { dataBase64, mimeType, filename: outputFile.filename };
+  await fetch(`${baseUrl}/interrupt`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prompt_id: promptId }),
+    signal: AbortSignal.timeout(5000),
+  });
+}
+
+function getOutputKind(mimeType: string): GenerationOutput['type'] {
+  const kind = mimeType.split('/')[0];
+  return kind === 'image' || kind === 'video' || kind === 'audio'
+    ? kind
+    : 'file';
 }
 
 function getMimeType(ext: string): string {
   switch (ext) {
+    case '.mov':
+      return 'video/quicktime';
+    case '.mp3':
+      return 'audio/mpeg';
+    case '.wav':
+      return 'audio/wav';
+    case '.flac':
+      return 'audio/flac';
     case '.mp4':
       return 'video/mp4';
     case '.webm':
@@ -158,101 +282,328 @@ function getMimeType(ext: string): string {
   }
 }
 
-function waitForCompletion(
-  wsUrl: string,
+/**
+ * Extract the image from a binary preview frame. Frames start with a 4-byte
+ * event type; plain previews follow it with a 4-byte image format, and
+ * previews with metadata with a 4-byte length and that much JSON (which
+ * names the prompt). Returns undefined for other frames and other prompts.
+ */
+function parsePreviewFrame(
+  data: ArrayBuffer,
+  promptId: string,
+): string | undefined {
+  const buffer = Buffer.from(data);
+  if (buffer.length < 8) return undefined;
+
+  const eventType = buffer.readUInt32BE(0);
+  if (eventType === PREVIEW_IMAGE) {
+    return buffer.subarray(8).toString('base64');
+  }
+  if (eventType === PREVIEW_IMAGE_WITH_METADATA) {
+    const metadataLength = buffer.readUInt32BE(4);
+    try {
+      const metadata = JSON.parse(
+        buffer.toString('utf8', 8, 8 + metadataLength),
+      ) as { prompt_id?: string };
+      if (metadata.prompt_id && metadata.prompt_id !== promptId) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+    return buffer.subarray(8 + metadataLength).toString('base64');
+  }
+  return undefined;
+}
+
+/**
+ * Node titles by id, for reporting which node is running
+ */
+function getNodeTitles(
+  workflow: Record<string, unknown>,
+): Record<string, string> {
+  const titles: Record<string, string> = {};
+  for (const [nodeId, node] of Object.entries(workflow)) {
+    if (typeof node !== 'object' || node === null) continue;
+    const { class_type, _meta } = node as {
+      class_type?: string;
+      _meta?: { title?: string };
+    };
+    const title = _meta?.title || class_type;
+    if (title) titles[nodeId] = title;
+  }
+  return titles;
+}
+
+/**
+ * How many prompts are ahead of ours in ComfyUI's queue. Returns undefined
+ * once the prompt has left the pending queue (it's running or finished).
+ */
+async function getQueuePosition(
+  baseUrl: string,
+  promptId: string,
+): Promise<number | undefined> {
+  const response = await fetch(`${baseUrl}/queue`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) return undefined;
+
+  // Entries are [number, prompt_id, prompt, extra_data, outputs]
+  const queue = (await response.json()) as {
+    queue_running?: Array<[number, string, ...unknown[]]>;
+    queue_pending?: Array<[number, string, ...unknown[]]>;
+  };
+  const pending = queue.queue_pending ?? [];
+  const ours = pending.find((entry) => entry[1] === promptId);
+  if (!ours) return undefined;
+
+  const running = queue.queue_running?.length ?? 0;
+  return running + pending.filter((entry) => entry[0] < ours[0]).length;
+}
+
+/**
+ * Check the prompt's history entry: whether it has finished, and the error
+ * if it failed.
+ */
+async function checkHistory(
+  baseUrl: string,
   promptId: string,
-  onProgress?: (progress: WorkflowExecutionProgress) => void,
-): Promise<void> {
+): Promise<{ finished: boolean; error?: Error }> {
+  const response = await fetch(`${baseUrl}/history/${promptId}`, {
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) return { finished: false };
+
+  const history = (await response.json()) as Record<
+    string,
+    {
+      status?: {
+        status_str?: string;
+        completed?: boolean;
+        messages?: Array<[string, Record<string, unknown>]>;
+      };
+    }
+  >;
+  const status = history[promptId]?.status;
+  if (!status) return { finished: false };
+
+  if (status.status_str === 'error') {
+    const error = status.messages?.find(([type]) => type === 'execution_error');
+    return { finished: true, error: executionError(error?.[1] ?? {}) };
+  }
+  return {
+    finished: status.completed === true || status.status_str === 'success',
+  };
+}
+
+function executionError(data: {
+  exception_message?: unknown;
+  node_type?: unknown;
+}): Error {
+  return new Error(
+    `ComfyUI execution error${data.node_type ? ` in ${data.node_type}` : ''}: ${data.exception_message || 'Unknown error'}`,
+  );
+}
+
+const EXECUTION_TIMEOUT_MS = 30 * 60 * 1000;
+const RECONNECT_MAX_DELAY_MS = 10000;
+// Poll quickly while waiting in the queue or without a WebSocket; slowly as
+// a safety net otherwise
+const POLL_INTERVAL_MS = 2000;
+const POLL_INTERVAL_CONNECTED_MS = 10000;
+
+/**
+ * Wait for a prompt to finish. Progress comes over the WebSocket, which is
+ * reconnected if it drops — the prompt keeps running in ComfyUI regardless.
+ * `/history` is polled alongside it, so completion is noticed even while
+ * disconnected, and `/queue` while the prompt waits behind others.
+ */
+function waitForCompletion(options: {
+  baseUrl: string;
+  wsUrl: string;
+  promptId: string;
+  workflow: Record<string, unknown>;
+  onProgress?: (progress: WorkflowExecutionProgress) => void;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const { baseUrl, wsUrl, promptId, onProgress, signal } = options;
+  const nodeTitles = getNodeTitles(options.workflow);
+
   return new Promise((resolve, reject) => {
-    const timeoutMs = 30 * 60 * 1000;
-    let ws: WebSocket;
+    let ws: WebSocket | undefined;
+    let connected = false;
+    let started = false;
+    let settled = false;
+    let reconnectDelay = 1000;
+    let dropped = false;
+    // Restored once a dropped connection is back
+    let nodeActivity: string | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Previews arrive between progress messages — report them with the
+    // latest step and activity
+    let lastProgress: WorkflowExecutionProgress = { step: 0, totalSteps: 0 };
+    const report = (update: Partial<WorkflowExecutionProgress>) => {
+      lastProgress = { ...lastProgress, ...update };
+      onProgress?.(lastProgress);
+    };
 
-    const timeout = setTimeout(() => {
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      clearTimeout(reconnectTimer);
+      clearTimeout(pollTimer);
+      signal?.removeEventListener('abort', onAbort);
       try {
         ws?.close();
       } catch {
         // Ignore
       }
-      reject(new Error('Workflow execution timed out after 30 minutes'));
-    }, timeoutMs);
+      if (error) reject(error);
+      else resolve();
+    };
 
-    try {
-      ws = new WebSocket(wsUrl);
-    } catch (err) {
-      clearTimeout(timeout);
-      reject(
-        new Error(
-          `Failed to connect to ComfyUI WebSocket: ${err instanceof Error ? err.message : err}`,
-        ),
-      );
-      return;
-    }
+    const timeout = setTimeout(
+      () => finish(new Error('Workflow execution timed out after 30 minutes')),
+      EXECUTION_TIMEOUT_MS,
+    );
 
-    ws.onmessage = (event) => {
+    const onAbort = () => finish(new Error('ComfyUI execution cancelled'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const poll = async () => {
       try {
-        const message = JSON.parse(
-          typeof event.data === 'string' ? event.data : '',
-        ) as {
-          type: string;
-          data: Record<string, unknown>;
-        };
-
-        if (message.type === 'progress') {
-          const data = message.data as {
-            value: number;
-            max: number;
-            prompt_id?: string;
-            node?: string;
-          };
-          if (!data.prompt_id || data.prompt_id === promptId) {
-            onProgress?.({
-              step: data.value,
-              totalSteps: data.max,
-              currentNode: data.node as string | undefined,
+        const { finished, error } = await checkHistory(baseUrl, promptId);
+        if (finished) {
+          finish(error);
+          return;
+        }
+        if (!started) {
+          const ahead = await getQueuePosition(baseUrl, promptId);
+          if (ahead !== undefined) {
+            report({
+              activity:
+                ahead > 0
+                  ? `Waiting in ComfyUI queue (${ahead} ahead)`
+                  : 'Waiting in ComfyUI queue (next)',
             });
           }
         }
+      } catch {
+        // ComfyUI unreachable for now — keep waiting
+      }
+      if (!settled) {
+        pollTimer = setTimeout(
+          poll,
+          connected && started ? POLL_INTERVAL_CONNECTED_MS : POLL_INTERVAL_MS,
+        );
+      }
+    };
 
-        if (message.type === 'execution_success') {
-          const data = message.data as { prompt_id: string };
-          if (data.prompt_id === promptId) {
-            clearTimeout(timeout);
-            ws.close();
-            resolve();
+    const handleMessage = (message: {
+      type: string;
+      data: Record<string, unknown>;
+    }) => {
+      const data = message.data as {
+        prompt_id?: string;
+        node?: string | null;
+        value?: number;
+        max?: number;
+      };
+      if (data.prompt_id && data.prompt_id !== promptId) return;
+
+      switch (message.type) {
+        case 'execution_start':
+          started = true;
+          break;
+        case 'executing':
+          if (!data.prompt_id) return;
+          // Older ComfyUI versions signal completion with a null node
+          if (data.node === null) {
+            finish();
+            return;
           }
-        }
-
-        if (message.type === 'execution_error') {
-          const data = message.data as {
-            prompt_id: string;
-            exception_message?: string;
-            node_type?: string;
-          };
-          if (data.prompt_id === promptId) {
-            clearTimeout(timeout);
-            ws.close();
-            reject(
-              new Error(
-                `ComfyUI execution error${data.node_type ? ` in ${data.node_type}` : ''}: ${data.exception_message || 'Unknown error'}`,
-              ),
-            );
+          started = true;
+          if (data.node) {
+            nodeActivity = `Running ${nodeTitles[data.node] ?? `node ${data.node}`}`;
+            report({ activity: nodeActivity, currentNode: data.node });
           }
-        }
-      } catch {
-        // Ignore non-JSON messages
+          break;
+        case 'progress':
+          report({
+            step: data.value ?? 0,
+            totalSteps: data.max ?? 0,
+            ...(data.node && { currentNode: data.node }),
+          });
+          break;
+        case 'execution_success':
+          if (data.prompt_id) finish();
+          break;
+        case 'execution_error':
+          if (data.prompt_id) finish(executionError(message.data));
+          break;
       }
     };
 
-    ws.onerror = () => {
-      clearTimeout(timeout);
-      reject(new Error('ComfyUI WebSocket error: connection failed'));
+    const connect = () => {
+      if (settled) return;
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(wsUrl);
+      } catch {
+        scheduleReconnect();
+        return;
+      }
+      ws = socket;
+      socket.binaryType = 'arraybuffer';
+
+      socket.onopen = () => {
+        if (dropped) {
+          dropped = false;
+          report({ activity: nodeActivity ?? 'Reconnected to ComfyUI' });
+        }
+        connected = true;
+        reconnectDelay = 1000;
+      };
+
+      socket.onmessage = (event) => {
+        if (event.data instanceof ArrayBuffer) {
+          const preview = parsePreviewFrame(event.data, promptId);
+          if (preview) onProgress?.({ ...lastProgress, preview });
+          return;
+        }
+        try {
+          handleMessage(
+            JSON.parse(typeof event.data === 'string' ? event.data : ''),
+          );
+        } catch {
+          // Ignore non-JSON messages
+        }
+      };
+
+      // An error is followed by close, which reconnects
+      socket.onerror = () => {};
+
+      socket.onclose = () => {
+        if (settled || ws !== socket) return;
+        if (connected) {
+          dropped = true;
+          report({ activity: 'Lost connection to ComfyUI, reconnecting' });
+        }
+        connected = false;
+        scheduleReconnect();
+      };
     };
 
-    ws.onclose = (event) => {
-      if (!event.wasClean) {
-        clearTimeout(timeout);
-        reject(new Error('ComfyUI WebSocket connection closed unexpectedly'));
-      }
+    const scheduleReconnect = () => {
+      if (settled) return;
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY_MS);
     };
+
+    connect();
+    poll();
   });
 }
@@ -0,0 +1,282 @@
+import { getProviderHosts } from '../config';
+import type { HostStatus, LocalModel, Provider } from './types';
+
+/** How long a host that stopped answering is skipped before being retried */
+const DOWN_HOST_RETRY_MS = 30_000;
+
+/** Network error codes meaning the host itself is unreachable */
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ETIMEDOUT',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+interface HostState {
+  baseUrl: string;
+  /** The provider bound to this host */
+  provider: Provider;
+  healthy: boolean;
+  active: number;
+  models: Set<string>;
+  loaded: Set<string>;
+  /** When an unhealthy host may be tried again */
+  retryAt: number;
+  lastError?: string;
+}
+
+interface Pool {
+  /** The provider the pool was built from — rebuilt when it changes */
+  source: Provider;
+  urls: string;
+  hosts: HostState[];
+}
+
+export interface HostLease {
+  /** Provider to run the request with (bound to the chosen host) */
+  provider: Provider;
+  /** The chosen host, or undefined for providers without a pool */
+  host?: string;
+  release(): void;
+}
+
+/**
+ * Whether an error means the host stopped answering (as opposed to the
+ * host answering with an error), so the request can move to another host.
+ */
+export function isConnectionError(error: unknown): boolean {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    const code = (e as Error & { code?: string }).code;
+    if (code && CONNECTION_ERROR_CODES.has(code)) return true;
+    if (e.message === 'fetch failed' || e.message === 'terminated') {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * HostPool spreads a provider across several servers of the same kind
+ * (e.g. Ollama on each workstation in a team), configured in
+ * `providerHosts`. Discovery merges models across hosts, requests go to a
+ * healthy host that has the model (preferring one with it already loaded,
+ * then the least busy), and hosts that stop answering are skipped until
+ * they respond again.
+ *
+ * Providers without a configured pool, or that can't be re-bound to
+ * another URL, pass straight through.
+ */
+class HostPool {
+  private pools = new Map<string, Pool>();
+
+  isPooled(provider: Provider): boolean {
+    return this.getHosts(provider).length > 0;
+  }
+
+  async isRunning(provider: Provider): Promise<boolean> {
+    const hosts = this.getHosts(provider);
+    if (hosts.length === 0) return provider.isRunning();
+
+    const results = await Promise.all(hosts.map((host) => this.probe(host)));
+    return results.some(Boolean);
+  }
+
+  /**
+   * Discover models on every host and merge them by name. Each model lists
+   * the hosts that have it.
+   */
+  async discoverModels(provider: Provider): Promise<LocalModel[]> {
+    const hosts = this.getHosts(provider);
+    if (hosts.length === 0) return provider.discoverModels();
+
+    const perHost = await Promise.all(
+      hosts.map(async (host) => {
+        if (!(await this.probe(host))) {
+          host.models.clear();
+          host.loaded.clear();
+          return [];
+        }
+        const [models, loaded] = await Promise.all([
+          host.provider.discoverModels(),
+          host.provider.getLoadedModels?.().catch(() => null) ?? null,
+        ]);
+        host.models = new Set(models.map((m) => m.name));
+        if (loaded) host.loaded = new Set(loaded);
+        return models;
+      }),
+    );
+
+    const merged = new Map<string, LocalModel>();
+    perHost.forEach((models, i) => {
+      const baseUrl = hosts[i]!.baseUrl;
+      for (const model of models) {
+        const existing = merged.get(model.name);
+        if (existing) {
+          existing.hosts = [...(existing.hosts ?? []), baseUrl];
+        } else {
+          merged.set(model.name, { ...model, hosts: [baseUrl] });
+        }
+      }
+    });
+    return [...merged.values()];
+  }
+
+  /**
+   * A provider bound to the first healthy host, for calls that aren't
+   * tied to a model (e.g. parameter schemas).
+   */
+  primary(provider: Provider): Provider {
+    const hosts = this.getHosts(provider);
+    return (hosts.find((h) => h.healthy) ?? hosts[0])?.provider ?? provider;
+  }
+
+  /**
+   * Pick a host for a request and count it as busy until released.
+   * Hosts in `exclude` (already failed for this request) are skipped.
+   */
+  acquire(
+    provider: Provider,
+    model: string,
+    exclude: ReadonlySet<string> = new Set(),
+  ): HostLease {
+    const hosts = this.getHosts(provider);
+    if (hosts.length === 0) return { provider, release: () => {} };
+
+    const candidates = this.getCandidates(hosts, model, exclude);
+    if (candidates.length === 0) {
+      throw new Error(
+        `No reachable ${provider.displayName} host has model ${model}`,
+      );
+    }
+
+    const host = [...candidates].sort(
+      (a, b) =>
+        Number(b.loaded.has(model)) - Number(a.loaded.has(model)) ||
+        Number(b.healthy) - Number(a.healthy) ||
+        a.active - b.active,
+    )[0]!;
+
+    host.active++;
+    let released = false;
+    return {
+      provider: host.provider,
+      host: host.baseUrl,
+      release: () => {
+        if (released) return;
+        released = true;
+        host.active--;
+      },
+    };
+  }
+
+  /** Whether another host could take a request that failed on `exclude` */
+  hasCandidate(
+    provider: Provider,
+    model: string,
+    exclude: ReadonlySet<string>,
+  ): boolean {
+    return (
+      this.getCandidates(this.getHosts(provider), model, exclude).length > 0
+    );
+  }
+
+  /** Record that a host served a model — it is healthy and has it loaded */
+  markServed(provider: Provider, baseUrl: string, model: string): void {
+    const host = this.findHost(provider, baseUrl);
+    if (!host) return;
+    this.markUp(host);
+    host.loaded.add(model);
+  }
+
+  markDown(provider: Provider, baseUrl: string, error: string): void {
+    const host = this.findHost(provider, baseUrl);
+    if (host) this.setDown(host, error);
+  }
+
+  getStatuses(provider: Provider): HostStatus[] {
+    return this.getHosts(provider).map((host) => ({
+      baseUrl: host.baseUrl,
+      healthy: host.healthy,
+      active: host.active,
+      models: host.models.size,
+      lastError: host.lastError,
+    }));
+  }
+
+  private getCandidates(
+    hosts: HostState[],
+    model: string,
+    exclude: ReadonlySet<string>,
+  ): HostState[] {
+    const now = Date.now();
+    const available = hosts.filter(
+      (h) => !exclude.has(h.baseUrl) && (h.healthy || h.retryAt <= now),
+    );
+    // Discovery can lag behind a pull, so fall back to any available host
+    const withModel = available.filter((h) => h.models.has(model));
+    return withModel.length > 0 ? withModel : available;
+  }
+
+  private async probe(host: HostState): Promise<boolean> {
+    const running = await host.provider.isRunning();
+    if (running) {
+      this.markUp(host);
+    } else {
+      this.setDown(host, 'Not responding');
+    }
+    return running;
+  }
+
+  private markUp(host: HostState): void {
+    host.healthy = true;
+    host.retryAt = 0;
+    host.lastError = undefined;
+  }
+
+  private setDown(host: HostState, error: string): void {
+    host.healthy = false;
+    host.retryAt = Date.now() + DOWN_HOST_RETRY_MS;
+    host.lastError = error;
+  }
+
+  private findHost(provider: Provider, baseUrl: string): HostState | undefined {
+    return this.getHosts(provider).find((h) => h.baseUrl === baseUrl);
+  }
+
+  /**
+   * Hosts for a provider, re-read from config so edits apply live. Existing
+   * host state (health, load) survives edits that keep the host.
+   */
+  private getHosts(provider: Provider): HostState[] {
+    const urls = provider.withBaseUrl ? getProviderHosts(provider.name) : [];
+    const key = urls.join('\n');
+    const pool = this.pools.get(provider.name);
+    if (pool && pool.source === provider && pool.urls === key) {
+      return pool.hosts;
+    }
+
+    const previous = new Map(
+      pool?.source === provider ? pool.hosts.map((h) => [h.baseUrl, h]) : [],
+    );
+    const hosts = urls.map(
+      (url): HostState =>
+        previous.get(url) ?? {
+          baseUrl: url,
+          provider: provider.withBaseUrl!(url),
+          healthy: true,
+          active: 0,
+          models: new Set(),
+          loaded: new Set(),
+          retryAt: 0,
+        },
+    );
+    this.pools.set(provider.name, { source: provider, urls: key, hosts });
+    return hosts;
+  }
+}
+
+export const hostPool = new HostPool();
@@ -2,6 +2,9 @@ import ollama from './ollama';
 import lmstudio from './lmstudio';
 import stableDiffusion from './stable-diffusion';
 import comfyui from './comfyui';
+import { getOpenAICompatibleProviders } from './openai-compatible';
+import { hostPool } from './host-pool';
+import { getModelAliases } from '../config';
 import type {
   Provider,
   LocalModel,
@@ -10,27 +13,56 @@ import type {
 } from './types';
 
 export * from './types';
+export { hostPool, isConnectionError, type HostLease } from './host-pool';
 
-// Registry of all available providers
-export const allProviders: Provider[] = [
+// Registry of the built-in providers
+export const builtInProviders: Provider[] = [
   ollama,
   lmstudio,
   stableDiffusion,
   comfyui,
 ];
 
+/**
+ * Built-in providers plus every OpenAI-compatible server registered in
+ * config. Registered names that clash with a built-in provider are ignored.
+ */
+export function getAllProviders(): Provider[] {
+  const builtInNames = new Set(builtInProviders.map((p) => p.name));
+  return [
+    ...builtInProviders,
+    ...getOpenAICompatibleProviders().filter((p) => !builtInNames.has(p.name)),
+  ];
+}
+
 /**
  * Get a provider instance by name
  */
 export function getProvider(name: string): Provider | undefined {
-  return allProviders.find((p) => p.name === name);
+  return getAllProviders().find((p) => p.name === name);
+}
+
+/**
+ * Resolve a published model name to the local model that serves it: the
+ * first alias target that is available, else the model with that name.
+ */
+export function resolveLocalModel(
+  name: string,
+  localModels: LocalModel[],
+): LocalModel | undefined {
+  const targets = getModelAliases()[name] ?? [];
+  for (const target of [...targets, name]) {
+    const model = localModels.find((m) => m.name === target && !m.statusHint);
+    if (model) return model;
+  }
+  return undefined;
 }
 
 /**
  * Get all providers that support a given capability
  */
 export function getProvidersByCapability(cap: ModelCapability): Provider[] {
-  return allProviders.filter((p) => p.capabilities.includes(cap));
+  return getAllProviders().filter((p) => p.capabilities.includes(cap));
 }
 
 /**
@@ -38,9 +70,9 @@ export function getProvidersByCapability(cap: ModelCapability): Provider[] {
  */
 export async function discoverRunningProviders(): Promise<Provider[]> {
   const results = await Promise.all(
-    allProviders.map(async (provider) => ({
+    getAllProviders().map(async (provider) => ({
       provider,
-      running: await provider.isRunning(),
+      running: await hostPool.isRunning(provider),
     })),
   );
 
@@ -54,7 +86,7 @@ export async function discoverAllModels(): Promise<LocalModel[]> {
   const runningProviders = await discoverRunningProviders();
 
   const modelArrays = await Promise.all(
-    runningProviders.map((p) => p.discoverModels()),
+    runningProviders.map((p) => hostPool.discoverModels(p)),
   );
 
   return modelArrays.flat();
@@ -64,7 +96,9 @@ export async function discoverAllModels(): Promise<LocalModel[]> {
  * Check if any provider is running
  */
 export async function isAnyProviderRunning(): Promise<boolean> {
-  const results = await Promise.all(allProviders.map((p) => p.isRunning()));
+  const results = await Promise.all(
+    getAllProviders().map((p) => hostPool.isRunning(p)),
+  );
   return results.some((r) => r);
 }
 
@@ -75,9 +109,9 @@ export async function getProviderStatuses(): Promise<
   Array<{ provider: Provider; running: boolean }>
 > {
   return Promise.all(
-    allProviders.map(async (provider) => ({
+    getAllProviders().map(async (provider) => ({
       provider,
-      running: await provider.isRunning(),
+      running: await hostPool.isRunning(provider),
     })),
   );
 }
@@ -94,7 +128,7 @@ export async function discoverModelsByCapability(
   );
 
   const modelArrays = await Promise.all(
-    filteredProviders.map((p) => p.discoverModels()),
+    filteredProviders.map((p) => hostPool.discoverModels(p)),
   );
 
   return modelArrays.flat();
@@ -107,10 +141,21 @@ export async function detectAllProviderStatuses(): Promise<
   Array<{ provider: Provider; status: ProviderSetupStatus }>
 > {
   return Promise.all(
-    allProviders.map(async (provider) => ({
-      provider,
-      status: await provider.detect(),
-    })),
+    getAllProviders().map(async (provider) => {
+      const status = await provider.detect();
+      if (!hostPool.isPooled(provider)) return { provider, status };
+
+      // A pool is running if any of its hosts is, wherever they are
+      const running = await hostPool.isRunning(provider);
+      return {
+        provider,
+        status: {
+          installed: status.installed || running,
+          running,
+          hosts: hostPool.getStatuses(provider),
+        },
+      };
+    }),
   );
 }
 
@@ -119,26 +164,39 @@ export async function detectAllProviderStatuses(): Promise<
  * For providers with getParameterSchemas, fetches available parameters dynamically
  */
 export async function discoverAllModelsWithParameters(): Promise<LocalModel[]> {
-  const runningProviders = await discoverRunningProviders();
-
-  const modelsWithParams = await Promise.all(
-    runningProviders.map(async (provider) => {
-      const models = await provider.discoverModels();
-
-      // Filter out status hint entries — they're for TUI display only
-      const realModels = models.filter((m) => !m.statusHint);
-
-      if (typeof provider.getParameterSchemas === 'function') {
-        const parameters = await provider.getParameterSchemas();
-        return realModels.map((model) => ({
-          ...model,
-          parameters: model.parameters ?? parameters,
-        }));
-      }
+  // Filter out status hint entries — they're for TUI display only
+  const models = (await discoverAllModels()).filter((m) => !m.statusHint);
+  return addParameterSchemas(models);
+}
 
-      return realModels;
-    }),
+/**
+ * Attach provider-wide parameter schemas to already discovered models.
+ * Fetching them can be slow (Stable Diffusion lists its samplers, LoRAs,
+ * and embeddings), so each provider is asked once, and only for providers
+ * that have models in the list.
+ */
+export async function addParameterSchemas(
+  models: LocalModel[],
+): Promise<LocalModel[]> {
+  const providerNames = [...new Set(models.map((m) => m.provider))];
+  const schemas = new Map(
+    await Promise.all(
+      providerNames.map(async (name) => {
+        const provider = getProvider(name);
+        const schemaSource = provider && hostPool.primary(provider);
+        const parameters =
+          typeof schemaSource?.getParameterSchemas === 'function'
+            ? await schemaSource.getParameterSchemas()
+            : undefined;
+        return [name, parameters] as const;
+      }),
+    ),
   );
 
-  return modelsWithParams.flat();
+  return models.map((model) => {
+    const parameters = schemas.get(model.provider);
+    return parameters
+      ? { ...model, parameters: model.parameters ?? parameters }
+      : model;
+  });
 }
@@ -2,6 +2,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { getProviderBaseUrl } from '../../config';
+import {
+  createEmbeddings,
+  streamChatCompletion,
+  toOpenAIMessage,
+  toOpenAIResponseFormat,
+} from '../openai';
 import readme from './readme.md';
 import type {
   Provider,
@@ -9,6 +15,8 @@ import type {
   ChatMessage,
   ChatOptions,
   ChatResponse,
+  EmbeddingOptions,
+  EmbeddingResult,
   ProviderSetupStatus,
 } from '../types';
 
@@ -22,17 +30,34 @@ interface LMStudioModelsResponse {
   data: LMStudioModel[];
 }
 
+/**
+ * Entry from LM Studio's native /api/v0/models endpoint, which (unlike the
+ * OpenAI-compatible one) reports the model type
+ */
+interface LMStudioNativeModel {
+  id: string;
+  type: 'llm' | 'vlm' | 'embeddings' | string;
+  state?: 'loaded' | 'not-loaded';
+}
+
 class LMStudioProvider implements Provider {
   readonly name = 'lmstudio';
   readonly displayName = 'LM Studio';
   readonly description =
     'Desktop app for running LLMs locally with a visual interface. No terminal required.';
-  readonly capabilities = ['text'] as const;
+  readonly capabilities = ['text', 'embedding'] as const;
   readonly readme = readme;
   readonly defaultBaseUrl = 'http://localhost:1234/v1';
 
+  /** @param hostUrl - Pins the provider to one host of a pool */
+  constructor(private readonly hostUrl?: string) {}
+
   get baseUrl(): string {
-    return getProviderBaseUrl(this.name, this.defaultBaseUrl);
+    return this.hostUrl ?? getProviderBaseUrl(this.name, this.defaultBaseUrl);
+  }
+
+  withBaseUrl(baseUrl: string): LMStudioProvider {
+    return new LMStudioProvider(baseUrl);
   }
 
   private getBaseUrl(): string {
@@ -60,17 +85,56 @@ class LMStudioProvider implements Provider {
       }
 
       const data = (await response.json()) as LMStudioModelsResponse;
-
-      return data.data.map((m) => ({
-        name: m.id,
-        provider: this.name,
-        capability: 'text' as const,
-      }));
+      const modelTypes = await this.getModelTypes();
+
+      return data.data.map((m) => {
+        // Without the native API, fall back to the naming convention
+        // embedding models follow (e.g. "text-embedding-nomic-embed-text")
+        const isEmbedding = modelTypes
+          ? modelTypes.get(m.id) === 'embeddings'
+          : /embed/i.test(m.id);
+        return {
+          name: m.id,
+          provider: this.name,
+          capability: isEmbedding ? ('embedding' as const) : ('text' as const),
+          vision: modelTypes ? modelTypes.get(m.id) === 'vlm' : undefined,
+        };
+      });
     } catch {
       return [];
     }
   }
 
+  /**
+   * Model ID -> type from the native REST API. Returns null on LM Studio
+   * versions without it, leaving vision support unknown and embedding
+   * models identified by name.
+   */
+  private async getModelTypes(): Promise<Map<string, string> | null> {
+    const models = await this.getNativeModels();
+    return models && new Map(models.map((m) => [m.id, m.type]));
+  }
+
+  async getLoadedModels(): Promise<string[]> {
+    const models = await this.getNativeModels();
+    return (models ?? []).filter((m) => m.state === 'loaded').map((m) => m.id);
+  }
+
+  private async getNativeModels(): Promise<LMStudioNativeModel[] | null> {
+    try {
+      const nativeBase = this.getBaseUrl().replace(/\/v1\/?$/, '');
+      const response = await fetch(`${nativeBase}/api/v0/models`, {
+        signal: AbortSignal.timeout(3000),
+      });
+      if (!response.ok) return null;
+
+      const data = (await response.json()) as { data: LMStudioNativeModel[] };
+      return data.data;
+    } catch {
+      return null;
+    }
+  }
+
   async detect(): Promise<ProviderSetupStatus> {
     let installed = false;
 
@@ -114,87 +178,35 @@ class LMStudioProvider implements Provider {
     messages: ChatMessage[],
     options?: ChatOptions,
   ): AsyncGenerator<ChatResponse> {
-    const response = await fetch(`${this.getBaseUrl()}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    yield* streamChatCompletion(
+      `${this.getBaseUrl()}/chat/completions`,
+      {
         model,
-        messages: messages.map((m) => ({
-          role: m.role,
-          content: m.content,
-        })),
-        stream: true,
+        messages: messages.map(toOpenAIMessage),
+        ...(options?.tools?.length && {
+          tools: options.tools,
+          tool_choice: options.toolChoice,
+        }),
+        ...(options?.responseFormat && {
+          response_format: toOpenAIResponseFormat(options.responseFormat),
+        }),
         temperature: options?.temperature,
         max_tokens: options?.maxTokens,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`LM Studio request failed: ${response.status} ${error}`);
-    }
-
-    if (!response.body) {
-      throw new Error('No response body from LM Studio');
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+      },
+      { label: 'LM Studio', signal: options?.signal },
+    );
+  }
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) {
-          yield { content: '', done: true };
-          break;
-        }
-
-        buffer += decoder.decode(value, { stream: true });
-
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-
-          if (!trimmed || !trimmed.startsWith('data: ')) {
-            continue;
-          }
-
-          const data = trimmed.slice(6);
-
-          if (data === '[DONE]') {
-            yield { content: '', done: true };
-            return;
-          }
-
-          try {
-            const parsed = JSON.parse(data) as {
-              choices: Array<{
-                delta?: { content?: string };
-                finish_reason?: string | null;
-              }>;
-            };
-
-            const choice = parsed.choices[0];
-            const content = choice?.delta?.content || '';
-            const isDone = choice?.finish_reason !== null;
-
-            if (content) {
-              yield { content, done: isDone };
-            }
-          } catch {
-            // Skip malformed JSON chunks
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+  async embed(
+    model: string,
+    input: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return createEmbeddings(
+      `${this.getBaseUrl()}/embeddings`,
+      { model, input, dimensions: options?.dimensions },
+      { label: 'LM Studio', signal: options?.signal },
+    );
   }
 }
 
@@ -1,6 +1,7 @@
-import { Ollama } from 'ollama';
+import { randomUUID } from 'node:crypto';
+import { Ollama, type Message, type Tool } from 'ollama';
 import { getProviderBaseUrl } from '../../config';
-import { commandExists } from '../utils';
+import { commandExists, getMessageImages, getMessageText } from '../utils';
 import readme from './readme.md';
 import type {
   Provider,
@@ -8,24 +9,119 @@ import type {
   ChatMessage,
   ChatOptions,
   ChatResponse,
+  EmbeddingOptions,
+  EmbeddingResult,
   ProviderSetupStatus,
 } from '../types';
 
+/** What `show` tells us about a model, beyond what `list` reports */
+interface ModelTraits {
+  vision: boolean;
+  embedding: boolean;
+}
+
+/** One update from a streamed `pull` */
+export interface PullProgress {
+  status: string;
+  /** The layer being downloaded, when the update is about one */
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+/** What the model management view shows for an installed model */
+export interface OllamaModelDetails {
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  contextLength?: number;
+  capabilities: string[];
+  /** `PARAMETER` lines from the modelfile, e.g. `stop` and `temperature` */
+  parameters: string;
+  modelfile: string;
+  license: string;
+}
+
+function toOllamaMessage(m: ChatMessage): Message {
+  const message: Message = { role: m.role, content: getMessageText(m.content) };
+  const images = getMessageImages(m.content);
+  if (images.length > 0) {
+    message.images = images.map((image) => image.base64);
+  }
+  if (m.toolCalls?.length) {
+    message.tool_calls = m.toolCalls.map((call) => ({
+      function: {
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      },
+    }));
+  }
+  if (m.role === 'tool' && m.name) {
+    message.tool_name = m.name;
+  }
+  return message;
+}
+
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args) as unknown;
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+function nsToMs(ns: number | undefined): number | undefined {
+  return ns === undefined ? undefined : Math.round(ns / 1e6);
+}
+
 class OllamaProvider implements Provider {
   readonly name = 'ollama';
   readonly displayName = 'Ollama';
   readonly description =
     'Run open-source LLMs locally via CLI. Supports Llama, Mistral, Gemma, and more.';
-  readonly capabilities = ['text'] as const;
+  readonly capabilities = ['text', 'embedding'] as const;
   readonly readme = readme;
   readonly defaultBaseUrl = 'http://localhost:11434';
+  private traitsCache = new Map<string, ModelTraits>();
+
+  /** @param hostUrl - Pins the provider to one host of a pool */
+  constructor(private readonly hostUrl?: string) {}
 
   get baseUrl(): string {
-    return getProviderBaseUrl(this.name, this.defaultBaseUrl);
+    return this.hostUrl ?? getProviderBaseUrl(this.name, this.defaultBaseUrl);
+  }
+
+  withBaseUrl(baseUrl: string): OllamaProvider {
+    return new OllamaProvider(baseUrl);
+  }
+
+  async getLoadedModels(): Promise<string[]> {
+    const response = await this.createClient().ps();
+    return response.models.map((m) => m.name);
   }
 
-  private createClient(): Ollama {
-    return new Ollama({ host: this.baseUrl });
+  /**
+   * The client can only abort a stream once it has started, which for a
+   * model that's still loading can be a long wait. The signal is threaded
+   * through its fetch instead, so a cancel aborts the HTTP request whatever
+   * stage it's at, and Ollama stops work for it.
+   */
+  private createClient(signal?: AbortSignal): Ollama {
+    return new Ollama({
+      host: this.baseUrl,
+      ...(signal && {
+        fetch: (...[input, init]: Parameters<typeof fetch>) =>
+          fetch(input, {
+            ...init,
+            signal: init?.signal
+              ? AbortSignal.any([init.signal, signal])
+              : signal,
+          }),
+      }),
+    });
   }
 
   async isRunning(): Promise<boolean> {
@@ -43,19 +139,118 @@ class OllamaProvider implements Provider {
       const client = this.createClient();
       const response = await client.list();
 
-      return response.models.map((m) => ({
-        name: m.name,
-        provider: this.name,
-        capability: 'text' as const,
-        size: m.size,
-        parameterSize: m.details?.parameter_size,
-        quantization: m.details?.quantization_level,
-      }));
+      return Promise.all(
+        response.models.map(async (m) => {
+          const traits = await this.getModelTraits(client, m.name, m.digest);
+          return {
+            name: m.name,
+            provider: this.name,
+            capability: traits.embedding
+              ? ('embedding' as const)
+              : ('text' as const),
+            size: m.size,
+            parameterSize: m.details?.parameter_size,
+            quantization: m.details?.quantization_level,
+            vision: traits.vision,
+          };
+        }),
+      );
     } catch {
       return [];
     }
   }
 
+  /**
+   * Check whether a model accepts images and whether it is an embedding
+   * model, via `show`. Cached by digest since discovery runs on every
+   * dashboard refresh and the answer only changes when the model is re-pulled.
+   */
+  private async getModelTraits(
+    client: Ollama,
+    model: string,
+    digest: string,
+  ): Promise<ModelTraits> {
+    const cached = this.traitsCache.get(digest);
+    if (cached) return cached;
+
+    try {
+      const info = await client.show({ model });
+      // Older Ollama versions lack `capabilities`; fall back to the model
+      // families — CLIP projectors for vision, BERT encoders for embeddings
+      const families = info.details?.families ?? [];
+      const traits: ModelTraits = info.capabilities
+        ? {
+            vision: info.capabilities.includes('vision'),
+            embedding:
+              info.capabilities.includes('embedding') &&
+              !info.capabilities.includes('completion'),
+          }
+        : {
+            vision: families.includes('clip'),
+            embedding: families.some((f) => f.includes('bert')),
+          };
+      this.traitsCache.set(digest, traits);
+      return traits;
+    } catch {
+      return { vision: false, embedding: false };
+    }
+  }
+
+  /**
+   * Download a model from the Ollama library, reporting each streamed
+   * status. Aborting stops the download; Ollama keeps the layers it already
+   * has, so pulling again resumes.
+   */
+  async pullModel(
+    model: string,
+    onProgress: (progress: PullProgress) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    signal?.throwIfAborted();
+    const stream = await this.createClient(signal).pull({
+      model,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      onProgress({
+        status: chunk.status,
+        digest: chunk.digest || undefined,
+        total: chunk.total || undefined,
+        completed: chunk.completed || undefined,
+      });
+    }
+  }
+
+  async deleteModel(model: string): Promise<void> {
+    await this.createClient().delete({ model });
+  }
+
+  async getModelDetails(model: string): Promise<OllamaModelDetails> {
+    const info = await this.createClient().show({ model });
+
+    // Typed as a Map, but arrives as a plain object keyed like
+    // `llama.context_length`
+    const modelInfo = (info.model_info ?? {}) as unknown as Record<
+      string,
+      unknown
+    >;
+    const architecture = modelInfo['general.architecture'];
+    const contextLength = modelInfo[`${architecture}.context_length`];
+
+    return {
+      family: info.details?.family,
+      parameterSize: info.details?.parameter_size,
+      quantization: info.details?.quantization_level,
+      contextLength:
+        typeof contextLength === 'number' ? contextLength : undefined,
+      capabilities: info.capabilities ?? [],
+      parameters: info.parameters ?? '',
+      modelfile: info.modelfile ?? '',
+      license: info.license ?? '',
+    };
+  }
+
   async detect(): Promise<ProviderSetupStatus> {
     const installed = await commandExists('ollama');
     let running = false;
@@ -72,14 +267,21 @@ class OllamaProvider implements Provider {
     messages: ChatMessage[],
     options?: ChatOptions,
   ): AsyncGenerator<ChatResponse> {
-    const client = this.createClient();
+    options?.signal?.throwIfAborted();
+    const client = this.createClient(options?.signal);
+
+    // Ollama has no tool_choice — 'none' is honoured by not sending tools
+    const tools = options?.toolChoice === 'none' ? undefined : options?.tools;
 
     const stream = await client.chat({
       model,
-      messages: messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
+      messages: messages.map(toOllamaMessage),
+      tools: tools as Tool[] | undefined,
+      // Ollama takes 'json' for JSON mode or the schema itself
+      format:
+        options?.responseFormat?.type === 'json_schema'
+          ? options.responseFormat.schema
+          : options?.responseFormat && 'json',
       stream: true,
       options: {
         temperature: options?.temperature,
@@ -87,13 +289,57 @@ class OllamaProvider implements Provider {
       },
     });
 
+    // Ollama sends each tool call whole (no IDs), possibly across chunks
+    let toolCallIndex = 0;
+
     for await (const chunk of stream) {
+      const toolCalls = chunk.message.tool_calls?.map((call) => ({
+        index: toolCallIndex++,
+        id: `call_${randomUUID()}`,
+        name: call.function.name,
+        arguments: JSON.stringify(call.function.arguments ?? {}),
+      }));
+
       yield {
         content: chunk.message.content,
         done: chunk.done,
+        ...(toolCalls?.length && { toolCalls }),
+        // Ollama reports counts and nanosecond durations on the final chunk
+        ...(chunk.done && {
+          usage: {
+            promptTokens: chunk.prompt_eval_count ?? 0,
+            completionTokens: chunk.eval_count ?? 0,
+          },
+          timing: {
+            totalMs: nsToMs(chunk.total_duration),
+            loadMs: nsToMs(chunk.load_duration),
+            promptEvalMs: nsToMs(chunk.prompt_eval_duration),
+            evalMs: nsToMs(chunk.eval_duration),
+          },
+        }),
       };
     }
   }
+
+  async embed(
+    model: string,
+    input: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    options?.signal?.throwIfAborted();
+    const client = this.createClient(options?.signal);
+
+    const response = await client.embed({
+      model,
+      input,
+      dimensions: options?.dimensions,
+    });
+
+    return {
+      embeddings: response.embeddings,
+      promptTokens: response.prompt_eval_count,
+    };
+  }
 }
 
 export default new OllamaProvider();
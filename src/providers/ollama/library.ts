@@ -0,0 +1,119 @@
+/**
+ * A short list of popular models from the Ollama library, for searching
+ * from the model management view. Ollama has no search API, so this is
+ * curated by hand; any other tag can still be pulled by name.
+ */
+
+export interface LibraryModel {
+  name: string;
+  description: string;
+  tags: string[];
+}
+
+/** One pullable `name:tag` from the library */
+export interface LibraryTag {
+  model: string;
+  description: string;
+}
+
+export const OLLAMA_LIBRARY: LibraryModel[] = [
+  {
+    name: 'llama3.2',
+    description: "Meta's small Llama models for chat and tool use",
+    tags: ['1b', '3b'],
+  },
+  {
+    name: 'llama3.1',
+    description: "Meta's general-purpose Llama model",
+    tags: ['8b', '70b'],
+  },
+  {
+    name: 'llama3.3',
+    description: 'Llama 3.1 405B quality at 70B',
+    tags: ['70b'],
+  },
+  {
+    name: 'gemma3',
+    description: "Google's Gemma, with vision from 4B up",
+    tags: ['1b', '4b', '12b', '27b'],
+  },
+  {
+    name: 'qwen3',
+    description: "Alibaba's Qwen with switchable thinking",
+    tags: ['0.6b', '1.7b', '4b', '8b', '14b', '30b', '32b'],
+  },
+  {
+    name: 'qwen2.5-coder',
+    description: 'Qwen tuned for code generation and repair',
+    tags: ['1.5b', '7b', '14b', '32b'],
+  },
+  {
+    name: 'deepseek-r1',
+    description: 'Reasoning models distilled from DeepSeek-R1',
+    tags: ['1.5b', '7b', '8b', '14b', '32b', '70b'],
+  },
+  {
+    name: 'gpt-oss',
+    description: "OpenAI's open-weight reasoning models",
+    tags: ['20b', '120b'],
+  },
+  {
+    name: 'mistral',
+    description: "Mistral AI's 7B model",
+    tags: ['7b'],
+  },
+  {
+    name: 'mistral-small3.1',
+    description: 'Mistral Small with vision and a 128K context',
+    tags: ['24b'],
+  },
+  {
+    name: 'phi4',
+    description: "Microsoft's 14B Phi model",
+    tags: ['14b'],
+  },
+  {
+    name: 'phi4-mini',
+    description: 'Small Phi model with function calling',
+    tags: ['3.8b'],
+  },
+  {
+    name: 'llava',
+    description: 'Vision model for describing images',
+    tags: ['7b', '13b', '34b'],
+  },
+  {
+    name: 'nomic-embed-text',
+    description: 'Embedding model with a large context',
+    tags: ['latest'],
+  },
+  {
+    name: 'mxbai-embed-large',
+    description: 'Embedding model from mixedbread.ai',
+    tags: ['335m'],
+  },
+  {
+    name: 'bge-m3',
+    description: 'Multilingual embedding model from BAAI',
+    tags: ['567m'],
+  },
+  {
+    name: 'all-minilm',
+    description: 'Tiny sentence embedding models',
+    tags: ['22m', '33m'],
+  },
+];
+
+/**
+ * Library tags matching every word of the query, in library order. An empty
+ * query matches everything.
+ */
+export function searchLibrary(query: string): LibraryTag[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return OLLAMA_LIBRARY.flatMap(({ name, description, tags }) =>
+    tags.map((tag) => ({ model: `${name}:${tag}`, description })),
+  ).filter(({ model, description }) => {
+    const text = `${model} ${description}`.toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+}
@@ -0,0 +1,295 @@
+import {
+  getOpenAICompatibleInstances,
+  type OpenAICompatibleInstance,
+} from '../../config';
+import {
+  createEmbeddings,
+  createSpeech,
+  createTranscription,
+  streamChatCompletion,
+  toOpenAIMessage,
+  toOpenAIResponseFormat,
+} from '../openai';
+import readme from './readme.md';
+import type {
+  Provider,
+  LocalModel,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  EmbeddingOptions,
+  EmbeddingResult,
+  ModelCapability,
+  ParameterSchema,
+  ProviderSetupStatus,
+  SpeechOptions,
+  SpeechResult,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from '../types';
+
+interface OpenAIModelsResponse {
+  data: Array<{ id: string }>;
+}
+
+// How mixed servers' models are told apart, by the usual naming conventions
+const CAPABILITY_PATTERNS: Array<[ModelCapability, RegExp]> = [
+  ['transcription', /whisper|transcri|asr|stt/i],
+  ['speech', /tts|speech|piper|kokoro|voice/i],
+  ['embedding', /embed/i],
+];
+
+const SPEECH_PARAMETERS: ParameterSchema[] = [
+  {
+    type: 'text',
+    label: 'Voice',
+    variable: 'voice',
+    helpText: 'Voice name, as the server knows it',
+  },
+  {
+    type: 'select',
+    label: 'Format',
+    variable: 'format',
+    defaultValue: 'mp3',
+    selectOptions: ['mp3', 'wav', 'opus', 'flac', 'aac'].map((value) => ({
+      value,
+    })),
+  },
+  {
+    type: 'number',
+    label: 'Speed',
+    variable: 'speed',
+    defaultValue: '1',
+    numberOptions: { min: 0.25, max: 4, step: 0.05 },
+  },
+];
+
+const TRANSCRIPTION_PARAMETERS: ParameterSchema[] = [
+  {
+    type: 'text',
+    label: 'Language',
+    variable: 'language',
+    helpText:
+      'Language of the audio as an ISO-639-1 code (e.g. "en"). Detected when empty.',
+  },
+];
+
+/**
+ * Any server speaking the OpenAI HTTP API, registered by the user in
+ * config. Unlike the built-in providers there is one instance per
+ * configured server rather than a singleton.
+ */
+export class OpenAICompatibleProvider implements Provider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly description: string;
+  readonly capabilities: readonly ModelCapability[];
+  readonly readme: string;
+  readonly defaultBaseUrl: string;
+
+  constructor(private readonly instance: OpenAICompatibleInstance) {
+    this.name = instance.name;
+    this.displayName = instance.displayName || instance.name;
+    this.description = `OpenAI-compatible server at ${instance.baseUrl}`;
+    this.capabilities = instance.capabilities?.length
+      ? instance.capabilities
+      : ['text'];
+    this.defaultBaseUrl = instance.baseUrl.replace(/\/+$/, '');
+    this.readme =
+      `# ${this.displayName}\n\n**Base URL:** ${this.defaultBaseUrl}\n\n` +
+      readme;
+  }
+
+  get baseUrl(): string {
+    return this.defaultBaseUrl;
+  }
+
+  withBaseUrl(baseUrl: string): OpenAICompatibleProvider {
+    return new OpenAICompatibleProvider({ ...this.instance, baseUrl });
+  }
+
+  private getHeaders(): Record<string, string> {
+    const { apiKey, apiKeyHeader } = this.instance;
+    if (!apiKey) return {};
+    if (!apiKeyHeader || apiKeyHeader.toLowerCase() === 'authorization') {
+      return { Authorization: `Bearer ${apiKey}` };
+    }
+    return { [apiKeyHeader]: apiKey };
+  }
+
+  async isRunning(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        method: 'GET',
+        headers: this.getHeaders(),
+        signal: AbortSignal.timeout(3000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async discoverModels(): Promise<LocalModel[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.getHeaders(),
+        signal: AbortSignal.timeout(3000),
+      });
+
+      if (!response.ok) {
+        return [];
+      }
+
+      const data = (await response.json()) as OpenAIModelsResponse;
+
+      return data.data.map((m) => {
+        const capability = this.classifyModel(m.id);
+        const parameters =
+          capability === 'speech'
+            ? SPEECH_PARAMETERS
+            : capability === 'transcription'
+              ? TRANSCRIPTION_PARAMETERS
+              : undefined;
+        return {
+          name: m.id,
+          provider: this.name,
+          capability,
+          ...(parameters && { parameters }),
+        };
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * `/models` doesn't say what a model does. Servers configured for a single
+   * capability get it for every model; mixed servers are split by naming
+   * conventions ("embed", "whisper", "tts", ...), with anything unmatched
+   * treated as text — or the first configured capability without text.
+   */
+  private classifyModel(id: string): ModelCapability {
+    if (this.capabilities.length === 1) return this.capabilities[0]!;
+    for (const [capability, pattern] of CAPABILITY_PATTERNS) {
+      if (this.capabilities.includes(capability) && pattern.test(id)) {
+        return capability;
+      }
+    }
+    return this.capabilities.includes('text') ? 'text' : this.capabilities[0]!;
+  }
+
+  async detect(): Promise<ProviderSetupStatus> {
+    // Registered servers have nothing to detect on disk — being configured
+    // counts as installed
+    return { installed: true, running: await this.isRunning() };
+  }
+
+  async *chat(
+    model: string,
+    messages: ChatMessage[],
+    options?: ChatOptions,
+  ): AsyncGenerator<ChatResponse> {
+    yield* streamChatCompletion(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model,
+        messages: messages.map(toOpenAIMessage),
+        ...(options?.tools?.length && {
+          tools: options.tools,
+          tool_choice: options.toolChoice,
+        }),
+        ...(options?.responseFormat && {
+          response_format: toOpenAIResponseFormat(options.responseFormat),
+        }),
+        temperature: options?.temperature,
+        max_tokens: options?.maxTokens,
+      },
+      {
+        label: this.displayName,
+        headers: this.getHeaders(),
+        signal: options?.signal,
+      },
+    );
+  }
+
+  async embed(
+    model: string,
+    input: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult> {
+    return createEmbeddings(
+      `${this.baseUrl}/embeddings`,
+      { model, input, dimensions: options?.dimensions },
+      {
+        label: this.displayName,
+        headers: this.getHeaders(),
+        signal: options?.signal,
+      },
+    );
+  }
+
+  async synthesizeSpeech(
+    model: string,
+    text: string,
+    options?: SpeechOptions,
+  ): Promise<SpeechResult> {
+    return createSpeech(
+      `${this.baseUrl}/audio/speech`,
+      {
+        model,
+        input: text,
+        voice: options?.voice,
+        response_format: options?.format,
+        speed: options?.speed,
+      },
+      {
+        label: this.displayName,
+        headers: this.getHeaders(),
+        signal: options?.signal,
+      },
+    );
+  }
+
+  async transcribe(
+    model: string,
+    audio: Buffer,
+    options?: TranscriptionOptions,
+  ): Promise<TranscriptionResult> {
+    return createTranscription(
+      `${this.baseUrl}/audio/transcriptions`,
+      {
+        model,
+        audio,
+        mimeType: options?.mimeType,
+        language: options?.language,
+        prompt: options?.prompt,
+        temperature: options?.temperature,
+      },
+      {
+        label: this.displayName,
+        headers: this.getHeaders(),
+        signal: options?.signal,
+      },
+    );
+  }
+}
+
+let cachedKey = '';
+let cachedProviders: OpenAICompatibleProvider[] = [];
+
+/**
+ * Providers for every configured instance. Instances are reused until the
+ * config changes so callers can compare providers by identity.
+ */
+export function getOpenAICompatibleProviders(): OpenAICompatibleProvider[] {
+  const instances = getOpenAICompatibleInstances();
+  const key = JSON.stringify(instances);
+  if (key !== cachedKey) {
+    cachedKey = key;
+    cachedProviders = instances
+      .filter((instance) => instance.name && instance.baseUrl)
+      .map((instance) => new OpenAICompatibleProvider(instance));
+  }
+  return cachedProviders;
+}
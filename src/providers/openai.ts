@@ -0,0 +1,384 @@
+import type {
+  ChatMessage,
+  ChatResponse,
+  EmbeddingResult,
+  ResponseFormat,
+  SpeechResult,
+  TranscriptionResult,
+} from './types';
+
+/**
+ * Helpers for the OpenAI-compatible HTTP API (`/v1/chat/completions`,
+ * `/v1/embeddings`, `/v1/audio/*`) shared by LM Studio and user-configured
+ * servers such as llama.cpp, vLLM, LocalAI and local whisper/TTS servers.
+ */
+
+/**
+ * Convert a ResponseFormat to OpenAI's `response_format`. Several servers
+ * (LM Studio among them) only constrain output for `json_schema`, so plain
+ * JSON mode is sent as a schema that accepts any object.
+ */
+export function toOpenAIResponseFormat(
+  format: ResponseFormat,
+): Record<string, unknown> {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: (format.type === 'json_schema' && format.name) || 'response',
+      schema:
+        format.type === 'json_schema' ? format.schema : { type: 'object' },
+    },
+  };
+}
+
+/**
+ * Convert a ChatMessage to the OpenAI chat completions message shape.
+ */
+export function toOpenAIMessage(m: ChatMessage): Record<string, unknown> {
+  const message: Record<string, unknown> = {
+    role: m.role,
+    content:
+      typeof m.content === 'string'
+        ? m.content
+        : m.content.map((part) =>
+            part.type === 'text'
+              ? { type: 'text', text: part.text }
+              : {
+                  type: 'image_url',
+                  image_url: {
+                    url: `data:${part.mimeType};base64,${part.base64}`,
+                  },
+                },
+          ),
+  };
+  if (m.toolCalls?.length) {
+    message.tool_calls = m.toolCalls;
+  }
+  if (m.role === 'tool') {
+    message.tool_call_id = m.toolCallId;
+    if (m.name) message.name = m.name;
+  }
+  return message;
+}
+
+/**
+ * POST a streaming chat completion and yield its SSE chunks as
+ * ChatResponses. `label` names the server in error messages.
+ */
+export async function* streamChatCompletion(
+  url: string,
+  body: Record<string, unknown>,
+  options: {
+    label: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+  },
+): AsyncGenerator<ChatResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify({
+      ...body,
+      stream: true,
+      // Ask for a final chunk carrying token counts
+      stream_options: { include_usage: true },
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(
+      `${options.label} request failed: ${response.status} ${error}`,
+    );
+  }
+
+  if (!response.body) {
+    throw new Error(`No response body from ${options.label}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        yield { content: '', done: true };
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+
+        if (!trimmed || !trimmed.startsWith('data: ')) {
+          continue;
+        }
+
+        const data = trimmed.slice(6);
+
+        if (data === '[DONE]') {
+          yield { content: '', done: true };
+          return;
+        }
+
+        try {
+          const parsed = JSON.parse(data) as {
+            choices: Array<{
+              delta?: {
+                content?: string;
+                tool_calls?: Array<{
+                  index: number;
+                  id?: string;
+                  function?: { name?: string; arguments?: string };
+                }>;
+              };
+              finish_reason?: string | null;
+            }>;
+            usage?: { prompt_tokens: number; completion_tokens: number };
+          };
+
+          // The usage chunk arrives last, with an empty choices array
+          if (parsed.usage) {
+            yield {
+              content: '',
+              done: true,
+              usage: {
+                promptTokens: parsed.usage.prompt_tokens,
+                completionTokens: parsed.usage.completion_tokens,
+              },
+            };
+            continue;
+          }
+
+          const choice = parsed.choices[0];
+          const content = choice?.delta?.content || '';
+          const isDone = choice?.finish_reason !== null;
+          const toolCalls = choice?.delta?.tool_calls?.map((call) => ({
+            index: call.index,
+            id: call.id,
+            name: call.function?.name,
+            arguments: call.function?.arguments,
+          }));
+
+          if (content || toolCalls?.length) {
+            yield {
+              content,
+              done: isDone,
+              ...(toolCalls?.length && { toolCalls }),
+            };
+          }
+        } catch {
+          // Skip malformed JSON chunks
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * POST to an OpenAI-compatible `/embeddings` endpoint.
+ */
+export async function createEmbeddings(
+  url: string,
+  body: { model: string; input: string[]; dimensions?: number },
+  options: {
+    label: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+  },
+): Promise<EmbeddingResult> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(
+      `${options.label} embedding request failed: ${response.status} ${error}`,
+    );
+  }
+
+  const data = (await response.json()) as {
+    data: Array<{ index: number; embedding: number[] }>;
+    usage?: { prompt_tokens: number };
+  };
+
+  return {
+    // Entries carry their input index; don't rely on response order
+    embeddings: [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding),
+    promptTokens: data.usage?.prompt_tokens,
+  };
+}
+
+const SPEECH_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  pcm: 'audio/pcm',
+};
+
+// Servers pick the decoder by file extension
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+};
+
+/**
+ * POST to an OpenAI-compatible `/audio/speech` endpoint.
+ */
+export async function createSpeech(
+  url: string,
+  body: {
+    model: string;
+    input: string;
+    voice?: string;
+    response_format?: string;
+    speed?: number;
+  },
+  options: {
+    label: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+  },
+): Promise<SpeechResult> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(
+      `${options.label} speech request failed: ${response.status} ${error}`,
+    );
+  }
+
+  // Trust the server's content type over the format asked for
+  const contentType = response.headers.get('content-type')?.split(';')[0];
+  const mimeType = contentType?.startsWith('audio/')
+    ? contentType
+    : (SPEECH_MIME_TYPES[body.response_format ?? 'mp3'] ??
+      'application/octet-stream');
+
+  return {
+    audioBase64: Buffer.from(await response.arrayBuffer()).toString('base64'),
+    mimeType,
+  };
+}
+
+/**
+ * POST audio to an OpenAI-compatible `/audio/transcriptions` endpoint.
+ * Asks for `verbose_json` to get segment timestamps, falling back to plain
+ * JSON for servers that don't support it.
+ */
+export async function createTranscription(
+  url: string,
+  body: {
+    model: string;
+    audio: Buffer;
+    mimeType?: string;
+    language?: string;
+    prompt?: string;
+    temperature?: number;
+  },
+  options: {
+    label: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+  },
+): Promise<TranscriptionResult> {
+  const send = (responseFormat: 'verbose_json' | 'json') => {
+    const form = new FormData();
+    const mimeType = body.mimeType ?? 'application/octet-stream';
+    form.append(
+      'file',
+      new Blob([new Uint8Array(body.audio)], { type: mimeType }),
+      `audio.${AUDIO_EXTENSIONS[mimeType] ?? 'bin'}`,
+    );
+    form.append('model', body.model);
+    form.append('response_format', responseFormat);
+    if (responseFormat === 'verbose_json') {
+      form.append('timestamp_granularities[]', 'segment');
+    }
+    if (body.language) form.append('language', body.language);
+    if (body.prompt) form.append('prompt', body.prompt);
+    if (body.temperature !== undefined) {
+      form.append('temperature', String(body.temperature));
+    }
+
+    return fetch(url, {
+      method: 'POST',
+      headers: options.headers,
+      body: form,
+      signal: options.signal,
+    });
+  };
+
+  let response = await send('verbose_json');
+  if (response.status === 400 || response.status === 422) {
+    response = await send('json');
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(
+      `${options.label} transcription request failed: ${response.status} ${error}`,
+    );
+  }
+
+  const data = (await response.json()) as {
+    text: string;
+    language?: string;
+    duration?: number;
+    segments?: Array<{ start: number; end: number; text: string }>;
+  };
+
+  return {
+    text: data.text.trim(),
+    language: data.language,
+    duration: data.duration,
+    segments: data.segments?.map(({ start, end, text }) => ({
+      start,
+      end,
+      text: text.trim(),
+    })),
+  };
+}
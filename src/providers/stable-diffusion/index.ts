@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { randomUUID } from 'node:crypto';
 import { getProviderBaseUrl, getProviderInstallPath } from '../../config';
 import readme from './readme.md';
 import type {
@@ -25,32 +26,54 @@ interface SDModel {
 }
 
 /**
- * Response from AUTOMATIC1111's /sdapi/v1/txt2img endpoint
+ * Response from AUTOMATIC1111's /sdapi/v1/txt2img and /sdapi/v1/img2img
+ * endpoints
  */
-interface Txt2ImgResponse {
+interface GenerationResponse {
   images: string[];
   parameters: Record<string, unknown>;
   info: string;
 }
 
 /**
- * Response from AUTOMATIC1111's /sdapi/v1/progress endpoint
+ * Response from AUTOMATIC1111's /internal/progress endpoint, which reports
+ * on one task rather than whatever the WebUI is running
  */
-interface ProgressResponse {
-  progress: number;
-  eta_relative: number;
-  state: {
-    skipped: boolean;
-    interrupted: boolean;
-    job: string;
-    job_count: number;
-    job_timestamp: string;
-    job_no: number;
-    sampling_step: number;
-    sampling_steps: number;
-  };
-  current_image?: string;
-  textinfo?: string;
+interface TaskProgressResponse {
+  active: boolean;
+  queued: boolean;
+  completed: boolean;
+  /** Fraction done, from 0 to 1 */
+  progress?: number;
+  /** Data URL, sent only when newer than `id_live_preview` */
+  live_preview?: string;
+  id_live_preview?: number;
+}
+
+/**
+ * Response from AUTOMATIC1111's /sdapi/v1/loras endpoint
+ */
+interface SDLora {
+  name: string;
+  alias?: string;
+  path: string;
+}
+
+/**
+ * Response from AUTOMATIC1111's /sdapi/v1/hypernetworks endpoint
+ */
+interface SDHypernetwork {
+  name: string;
+  path: string;
+}
+
+/**
+ * Response from AUTOMATIC1111's /sdapi/v1/embeddings endpoint. Embeddings
+ * that don't fit the loaded checkpoint are listed under `skipped`.
+ */
+interface SDEmbeddings {
+  loaded: Record<string, unknown>;
+  skipped: Record<string, unknown>;
 }
 
 /**
@@ -74,9 +97,17 @@ class StableDiffusionProvider implements Provider {
   readonly capabilities = ['image'] as const;
   readonly readme = readme;
   readonly defaultBaseUrl = 'http://127.0.0.1:7860';
+  readonly acceptsInitImage = true;
+
+  /** @param hostUrl - Pins the provider to one host of a pool */
+  constructor(private readonly hostUrl?: string) {}
 
   get baseUrl(): string {
-    return getProviderBaseUrl(this.name, this.defaultBaseUrl);
+    return this.hostUrl ?? getProviderBaseUrl(this.name, this.defaultBaseUrl);
+  }
+
+  withBaseUrl(baseUrl: string): StableDiffusionProvider {
+    return new StableDiffusionProvider(baseUrl);
   }
 
   private getBaseUrl(): string {
@@ -184,52 +215,142 @@ class StableDiffusionProvider implements Provider {
     }
   }
 
+  /**
+   * Stop our job if the WebUI is running it; the pending generation call
+   * then returns early with whatever it had generated. /interrupt stops
+   * whatever is running, so it's only sent once /internal/progress confirms
+   * the active task is ours. Returns whether it was.
+   */
+  private async interruptTask(taskId: string): Promise<boolean> {
+    const response = await fetch(`${this.getBaseUrl()}/internal/progress`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id_task: taskId, live_preview: false }),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) return false;
+
+    const { active } = (await response.json()) as { active?: boolean };
+    if (!active) return false;
+
+    await fetch(`${this.getBaseUrl()}/sdapi/v1/interrupt`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(5000),
+    });
+    return true;
+  }
+
   async generateImage(
     model: string,
     prompt: string,
     options?: ImageGenerationOptions,
     onProgress?: (progress: ImageGenerationProgress) => void,
   ): Promise<ImageGenerationResult> {
+    const signal = options?.signal;
+    signal?.throwIfAborted();
+
     const currentModel = await this.getCurrentModel();
     if (currentModel && !currentModel.includes(model)) {
       await this.setModel(model);
     }
 
+    // LoRAs, hypernetworks, and embeddings are all applied through the prompt
+    const fullPrompt = [
+      [prompt, ...(options?.embeddings ?? [])].filter(Boolean).join(', '),
+      ...(options?.loras ?? []).map((l) => `<lora:${l.name}:${l.weight}>`),
+      ...(options?.hypernetworks ?? []).map(
+        (h) => `<hypernet:${h.name}:${h.weight}>`,
+      ),
+    ].join(' ');
+    const negativePrompt = [
+      options?.negativePrompt,
+      ...(options?.negativeEmbeddings ?? []),
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    // Our own task ID, so a cancel can tell whether the running job is ours
+    const taskId = `task(mindstudio-${randomUUID()})`;
     const payload = {
-      prompt,
-      negative_prompt: options?.negativePrompt || '',
+      force_task_id: taskId,
+      prompt: fullPrompt,
+      negative_prompt: negativePrompt,
       steps: options?.steps || 20,
       width: options?.width || 512,
       height: options?.height || 512,
       cfg_scale: options?.cfgScale || 7,
       seed: options?.seed ?? -1,
       sampler_name: options?.sampler || 'Euler a',
+      // With an init image this becomes img2img, and with a mask inpainting
+      ...(options?.initImage && {
+        init_images: [options.initImage],
+        denoising_strength: options.denoisingStrength ?? 0.75,
+      }),
+      ...(options?.mask && {
+        mask: options.mask,
+        mask_blur: 4,
+        // Start masked areas from the original image rather than noise
+        inpainting_fill: 1,
+      }),
     };
 
-    const generatePromise = fetch(`${this.getBaseUrl()}/sdapi/v1/txt2img`, {
+    const endpoint = options?.initImage ? 'img2img' : 'txt2img';
+    const fetchController = new AbortController();
+    const generatePromise = fetch(`${this.getBaseUrl()}/sdapi/v1/${endpoint}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(payload),
+      signal: fetchController.signal,
     });
 
+    // Cancelling the HTTP request alone leaves the WebUI generating, so
+    // interrupt the job on the backend if it's running. If it's still
+    // queued behind someone else's, just drop the request.
+    const onAbort = () => {
+      this.interruptTask(taskId)
+        .then((interrupted) => {
+          if (!interrupted) fetchController.abort();
+        })
+        .catch(() => fetchController.abort());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Set once the generation call settles, so polling stops with it
+    let done = false;
+
     if (onProgress) {
+      const totalSteps = payload.steps;
       const pollProgress = async () => {
-        while (true) {
+        let previewId = -1;
+        while (!done && !signal?.aborted) {
           try {
             const response = await fetch(
-              `${this.getBaseUrl()}/sdapi/v1/progress`,
+              `${this.getBaseUrl()}/internal/progress`,
+              {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                  id_task: taskId,
+                  id_live_preview: previewId,
+                  live_preview: true,
+                }),
+                signal: AbortSignal.timeout(5000),
+              },
             );
             if (!response.ok) break;
 
-            const progress = (await response.json()) as ProgressResponse;
+            const progress = (await response.json()) as TaskProgressResponse;
+            if (progress.completed || done) break;
 
-            onProgress({
-              step: progress.state.sampling_step,
-              totalSteps: progress.state.sampling_steps,
-              preview: progress.current_image,
-            });
-
-            if (progress.progress >= 1.0) break;
+            if (progress.active) {
+              previewId = progress.id_live_preview ?? previewId;
+              onProgress({
+                step: Math.round((progress.progress ?? 0) * totalSteps),
+                totalSteps,
+                // Strip the data URL prefix to leave the base64 image
+                preview: progress.live_preview?.replace(/^data:[^,]*,/, ''),
+              });
+            }
 
             await new Promise((resolve) => setTimeout(resolve, 500));
           } catch {
@@ -241,14 +362,26 @@ class StableDiffusionProvider implements Provider {
       pollProgress().catch(() => {});
     }
 
-    const response = await generatePromise;
+    let response: Response;
+    try {
+      response = await generatePromise;
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw error;
+    } finally {
+      done = true;
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    // An interrupted job still returns a (partial) image — discard it
+    signal?.throwIfAborted();
 
     if (!response.ok) {
       const error = await response.text();
       throw new Error(`Image generation failed: ${response.status} ${error}`);
     }
 
-    const result = (await response.json()) as Txt2ImgResponse;
+    const result = (await response.json()) as GenerationResponse;
 
     if (!result.images || result.images.length === 0) {
       throw new Error('No images returned from Stable Diffusion');
@@ -286,6 +419,39 @@ class StableDiffusionProvider implements Provider {
     }
   }
 
+  /**
+   * GET a WebUI API endpoint. Returns undefined if it fails — older WebUI
+   * versions lack some endpoints.
+   */
+  private async fetchList<T>(endpoint: string): Promise<T | undefined> {
+    try {
+      const response = await fetch(`${this.getBaseUrl()}/sdapi/v1/${endpoint}`);
+      if (!response.ok) return undefined;
+      return (await response.json()) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getLoras(): Promise<string[]> {
+    const loras = await this.fetchList<SDLora[]>('loras');
+    return (loras ?? []).map((l) => l.name);
+  }
+
+  async getHypernetworks(): Promise<string[]> {
+    const hypernetworks =
+      await this.fetchList<SDHypernetwork[]>('hypernetworks');
+    return (hypernetworks ?? []).map((h) => h.name);
+  }
+
+  /**
+   * Embeddings usable with the loaded checkpoint
+   */
+  async getEmbeddings(): Promise<string[]> {
+    const embeddings = await this.fetchList<SDEmbeddings>('embeddings');
+    return Object.keys(embeddings?.loaded ?? {});
+  }
+
   private getDefaultSamplers(): string[] {
     return [
       'Euler a',
@@ -323,8 +489,61 @@ class StableDiffusionProvider implements Provider {
   }
 
   async getParameterSchemas(): Promise<ParameterSchema[]> {
-    const samplers = await this.getSamplers();
+    const [samplers, loras, hypernetworks, embeddings] = await Promise.all([
+      this.getSamplers(),
+      this.getLoras(),
+      this.getHypernetworks(),
+      this.getEmbeddings(),
+    ]);
     const dimensionOptions = this.generateDimensionOptions();
+    const toOptions = (names: string[]) =>
+      names.map((name) => ({ label: name, value: name }));
+
+    // Only offer the networks that are installed
+    const networkSchemas: ParameterSchema[] = [
+      ...(loras.length > 0
+        ? [
+            {
+              type: 'loras' as const,
+              label: 'LoRAs',
+              variable: 'loras',
+              helpText:
+                'LoRAs to apply, each with a weight (usually between 0.5 and 1)',
+              lorasOptions: { availableOptions: toOptions(loras) },
+            },
+          ]
+        : []),
+      ...(hypernetworks.length > 0
+        ? [
+            {
+              type: 'loras' as const,
+              label: 'Hypernetworks',
+              variable: 'hypernetworks',
+              helpText: 'Hypernetworks to apply, each with a weight',
+              lorasOptions: { availableOptions: toOptions(hypernetworks) },
+            },
+          ]
+        : []),
+      ...(embeddings.length > 0
+        ? [
+            {
+              type: 'toggleGroup' as const,
+              label: 'Embeddings',
+              variable: 'embeddings',
+              helpText: 'Textual inversion embeddings to add to the prompt',
+              toggleGroupOptions: toOptions(embeddings),
+            },
+            {
+              type: 'toggleGroup' as const,
+              label: 'Negative Embeddings',
+              variable: 'negativeEmbeddings',
+              helpText:
+                'Textual inversion embeddings to add to the negative prompt',
+              toggleGroupOptions: toOptions(embeddings),
+            },
+          ]
+        : []),
+    ];
 
     return [
       {
@@ -393,6 +612,34 @@ class StableDiffusionProvider implements Provider {
         helpText: "Things you don't want in the image",
         placeholder: 'blurry, low quality, distorted',
       },
+      {
+        type: 'imageUrl',
+        label: 'Init Image',
+        variable: 'initImage',
+        helpText:
+          'Start from this image instead of noise (img2img). Width and height should match it.',
+      },
+      {
+        type: 'imageUrl',
+        label: 'Inpainting Mask',
+        variable: 'mask',
+        helpText:
+          'Black and white mask for the init image. Only the white areas are repainted.',
+      },
+      {
+        type: 'number',
+        label: 'Denoising Strength',
+        variable: 'denoisingStrength',
+        helpText:
+          'How much to change the init image. Lower keeps more of the original.',
+        defaultValue: '0.75',
+        numberOptions: {
+          min: 0,
+          max: 1,
+          step: 0.05,
+        },
+      },
+      ...networkSchemas,
     ];
   }
 }
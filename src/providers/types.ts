@@ -1,5 +1,11 @@
 // Model capability types
-export type ModelCapability = 'text' | 'image' | 'video';
+export type ModelCapability =
+  | 'text'
+  | 'image'
+  | 'video'
+  | 'embedding'
+  | 'speech'
+  | 'transcription';
 
 // ============================================
 // Parameter Schema Types (for UI configuration)
@@ -20,6 +26,8 @@ export interface LorasOptions {
   maxItems?: number;
   civitBaseModelName?: string;
   civitBaseModelNameImageAlt?: string;
+  /** Networks installed locally, offered instead of a Civitai search */
+  availableOptions?: SelectOption[];
 }
 
 export interface BaseParameterSchema {
@@ -85,6 +93,8 @@ export interface ComfyWorkflowOptions {
   availableWorkflows: Array<{
     name: string;
     workflow: Record<string, unknown>;
+    /** Workflow inputs a request can set, beyond the prompt */
+    parameters?: ParameterSchema[];
   }>;
 }
 
@@ -118,6 +128,10 @@ export interface LocalModel {
   size?: number;
   parameterSize?: string;
   quantization?: string;
+  /** Whether the model accepts image input in chat messages */
+  vision?: boolean;
+  /** Base URLs of the pooled hosts that have this model */
+  hosts?: string[];
   /** Parameter schemas for UI configuration */
   parameters?: ParameterSchema[];
   /** Optional hint shown in the TUI (e.g. "restart required") — not synced as a model */
@@ -128,25 +142,150 @@ export interface LocalModel {
 // Text Generation Types
 // ============================================
 
-export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+/** A function the model may call, described with a JSON Schema */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
 }
 
+/** A complete tool call requested by the model (OpenAI shape) */
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
+  };
+}
+
+/**
+ * A streamed fragment of a tool call. Fragments with the same index belong
+ * to the same call; `arguments` fragments are concatenated in order.
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export type ToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+export interface ChatTextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ChatImagePart {
+  type: 'image';
+  /** Base64-encoded image data (no data: URL prefix) */
+  base64: string;
+  /** MIME type (e.g., "image/png") */
+  mimeType: string;
+}
+
+export type ChatContentPart = ChatTextPart | ChatImagePart;
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  /** Plain text, or text and image parts for vision models */
+  content: string | ChatContentPart[];
+  /** Tool calls the assistant made in this turn */
+  toolCalls?: ToolCall[];
+  /** For role 'tool': the ID of the call this message is the result of */
+  toolCallId?: string;
+  /** For role 'tool': the name of the tool that produced the result */
+  name?: string;
+}
+
+/**
+ * Constrains the model's output: any valid JSON, or JSON matching a schema.
+ */
+export type ResponseFormat =
+  | { type: 'json' }
+  | {
+      type: 'json_schema';
+      schema: Record<string, unknown>;
+      /** Schema name, for providers that require one */
+      name?: string;
+    };
+
 export interface ChatOptions {
   temperature?: number;
   maxTokens?: number;
+  /** Tools the model may call */
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  /** Constrain generation to JSON (optionally matching a schema) */
+  responseFormat?: ResponseFormat;
+  /** Stops generation and frees the model when aborted */
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatTiming {
+  /** Total time the provider spent on the request, including model load */
+  totalMs?: number;
+  /** Time spent loading the model into memory */
+  loadMs?: number;
+  /** Time spent processing the prompt */
+  promptEvalMs?: number;
+  /** Time spent generating completion tokens */
+  evalMs?: number;
 }
 
 export interface ChatResponse {
   content: string;
   done: boolean;
+  /** Tool call fragments produced in this chunk */
+  toolCalls?: ToolCallDelta[];
+  /** Final token counts — set on the last chunk when the provider reports them */
+  usage?: ChatUsage;
+  /** Provider-measured timing — set on the last chunk when available */
+  timing?: ChatTiming;
+}
+
+// ============================================
+// Embedding Types
+// ============================================
+
+export interface EmbeddingOptions {
+  /** Output vector size, for models that support truncating embeddings */
+  dimensions?: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input, in input order */
+  embeddings: number[][];
+  /** Input tokens processed, when the provider reports it */
+  promptTokens?: number;
 }
 
 // ============================================
 // Image Generation Types
 // ============================================
 
+/** A LoRA or hypernetwork and how strongly to apply it */
+export interface NetworkWeight {
+  name: string;
+  weight: number;
+}
+
 export interface ImageGenerationOptions {
   negativePrompt?: string;
   width?: number;
@@ -156,6 +295,38 @@ export interface ImageGenerationOptions {
   seed?: number;
   sampler?: string;
   workflow?: Record<string, unknown>;
+  /** Request values for the workflow's inputs, by variable name */
+  workflowInputs?: Record<string, unknown>;
+  /** LoRAs to apply, with their weights */
+  loras?: NetworkWeight[];
+  /** Hypernetworks to apply, with their weights */
+  hypernetworks?: NetworkWeight[];
+  /** Textual inversion embeddings to add to the prompt */
+  embeddings?: string[];
+  /** Textual inversion embeddings to add to the negative prompt */
+  negativeEmbeddings?: string[];
+  /** Base64 image to start from (img2img) */
+  initImage?: string;
+  /** Base64 mask — white areas of the init image are repainted (inpainting) */
+  mask?: string;
+  /** How much of the init image to change, from 0 (none) to 1 (all) */
+  denoisingStrength?: number;
+  /** Interrupts generation on the backend when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * A file a generation produced beyond its main result — the rest of a
+ * batch, or other outputs of a multi-output workflow
+ */
+export interface GenerationOutput {
+  /** Base64-encoded file data */
+  dataBase64: string;
+  mimeType: string;
+  type: 'image' | 'video' | 'audio' | 'file';
+  /** Workflow node that produced it, for node-based backends */
+  nodeId?: string;
+  filename?: string;
 }
 
 export interface ImageGenerationResult {
@@ -167,6 +338,8 @@ export interface ImageGenerationResult {
   seed?: number;
   /** Generation info/metadata */
   info?: Record<string, unknown>;
+  /** Every other file the generation produced */
+  additionalOutputs?: GenerationOutput[];
 }
 
 export interface ImageGenerationProgress {
@@ -174,8 +347,10 @@ export interface ImageGenerationProgress {
   step: number;
   /** Total steps */
   totalSteps: number;
-  /** Optional preview image (base64) */
+  /** Optional preview image (base64 PNG or JPEG) */
   preview?: string;
+  /** What the backend is doing, e.g. its queue position or the node running */
+  activity?: string;
 }
 
 // ============================================
@@ -192,6 +367,10 @@ export interface VideoGenerationOptions {
   cfgScale?: number;
   seed?: number;
   workflow?: Record<string, unknown>;
+  /** Request values for the workflow's inputs, by variable name */
+  workflowInputs?: Record<string, unknown>;
+  /** Interrupts generation on the backend when aborted */
+  signal?: AbortSignal;
 }
 
 export interface VideoGenerationResult {
@@ -207,6 +386,8 @@ export interface VideoGenerationResult {
   seed?: number;
   /** Generation info/metadata */
   info?: Record<string, unknown>;
+  /** Every other file the generation produced */
+  additionalOutputs?: GenerationOutput[];
 }
 
 export interface VideoGenerationProgress {
@@ -216,15 +397,84 @@ export interface VideoGenerationProgress {
   totalSteps: number;
   /** Current node being executed */
   currentNode?: string;
+  /** Optional preview image (base64 PNG or JPEG) */
+  preview?: string;
+  /** What the backend is doing, e.g. its queue position or the node running */
+  activity?: string;
+}
+
+// ============================================
+// Audio Types
+// ============================================
+
+export interface SpeechOptions {
+  /** Voice name, as the server knows it */
+  voice?: string;
+  /** Output format (e.g. "mp3", "wav", "opus") — defaults to mp3 */
+  format?: string;
+  /** Speaking rate, where 1 is normal */
+  speed?: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+}
+
+export interface SpeechResult {
+  /** Base64-encoded audio data */
+  audioBase64: string;
+  /** MIME type (e.g., "audio/mpeg") */
+  mimeType: string;
+}
+
+export interface TranscriptionOptions {
+  /** MIME type of the audio */
+  mimeType?: string;
+  /** Language of the audio (ISO-639-1), when known */
+  language?: string;
+  /** Text to guide spelling and style, e.g. names or jargon */
+  prompt?: string;
+  temperature?: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+}
+
+export interface TranscriptSegment {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  /** Detected or given language */
+  language?: string;
+  /** Audio duration in seconds */
+  duration?: number;
+  /** Timestamped segments, when the server reports them */
+  segments?: TranscriptSegment[];
 }
 
 // ============================================
 // Provider Status
 // ============================================
 
+export interface HostStatus {
+  baseUrl: string;
+  /** False once the host stops answering, until it responds again */
+  healthy: boolean;
+  /** Requests currently running on this host */
+  active: number;
+  /** Models found on this host at the last discovery */
+  models: number;
+  lastError?: string;
+}
+
 export interface ProviderSetupStatus {
   installed: boolean;
   running: boolean;
+  /** Per-host state, for providers configured with a pool of hosts */
+  hosts?: HostStatus[];
 }
 
 // ============================================
@@ -239,6 +489,8 @@ export interface Provider {
   readonly baseUrl: string;
   readonly capabilities: readonly ModelCapability[];
   readonly readme: string;
+  /** Whether `generateImage` uses `initImage` and `mask` (img2img, inpainting) */
+  readonly acceptsInitImage?: boolean;
 
   isRunning(): Promise<boolean>;
   detect(): Promise<ProviderSetupStatus>;
@@ -251,6 +503,12 @@ export interface Provider {
     options?: ChatOptions,
   ): AsyncGenerator<ChatResponse>;
 
+  embed?(
+    model: string,
+    input: string[],
+    options?: EmbeddingOptions,
+  ): Promise<EmbeddingResult>;
+
   generateImage?(
     model: string,
     prompt: string,
@@ -265,7 +523,28 @@ export interface Provider {
     onProgress?: (progress: VideoGenerationProgress) => void,
   ): Promise<VideoGenerationResult>;
 
+  synthesizeSpeech?(
+    model: string,
+    text: string,
+    options?: SpeechOptions,
+  ): Promise<SpeechResult>;
+
+  transcribe?(
+    model: string,
+    audio: Buffer,
+    options?: TranscriptionOptions,
+  ): Promise<TranscriptionResult>;
+
   getParameterSchemas?(): Promise<ParameterSchema[]>;
+
+  /**
+   * A copy of this provider bound to another server. Providers that
+   * implement it can be pooled across several hosts.
+   */
+  withBaseUrl?(baseUrl: string): Provider;
+
+  /** Names of the models currently loaded in memory, used for routing */
+  getLoadedModels?(): Promise<string[]>;
 }
 
 // ============================================
@@ -276,6 +555,10 @@ export function isTextProvider(p: Provider): boolean {
   return typeof p.chat === 'function';
 }
 
+export function isEmbeddingProvider(p: Provider): boolean {
+  return typeof p.embed === 'function';
+}
+
 export function isImageProvider(p: Provider): boolean {
   return typeof p.generateImage === 'function';
 }
@@ -283,3 +566,11 @@ export function isImageProvider(p: Provider): boolean {
 export function isVideoProvider(p: Provider): boolean {
   return typeof p.generateVideo === 'function';
 }
+
+export function isSpeechProvider(p: Provider): boolean {
+  return typeof p.synthesizeSpeech === 'function';
+}
+
+export function isTranscriptionProvider(p: Provider): boolean {
+  return typeof p.transcribe === 'function';
+}
@@ -1,5 +1,6 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import type { ChatContentPart, ChatImagePart } from './types';
 
 const execAsync = promisify(exec);
 
@@ -15,3 +16,72 @@ export async function commandExists(command: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Download a file over HTTP(S), or decode a data: URL.
+ * The MIME type comes from the response (or data: URL) header.
+ */
+export async function downloadMedia(
+  url: string,
+  signal?: AbortSignal,
+): Promise<{ data: Buffer; mimeType: string }> {
+  const dataUrl = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(url);
+  if (dataUrl) {
+    const [, mimeType, isBase64, payload] = dataUrl;
+    return {
+      data: isBase64
+        ? Buffer.from(payload!, 'base64')
+        : Buffer.from(decodeURIComponent(payload!)),
+      mimeType: mimeType || 'application/octet-stream',
+    };
+  }
+
+  const response = await fetch(url, {
+    signal: signal
+      ? AbortSignal.any([signal, AbortSignal.timeout(60000)])
+      : AbortSignal.timeout(60000),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status}`);
+  }
+
+  const mimeType =
+    response.headers.get('content-type')?.split(';')[0]?.trim() ||
+    'application/octet-stream';
+  return { data: Buffer.from(await response.arrayBuffer()), mimeType };
+}
+
+/**
+ * MIME type of base64 image data, from its leading bytes. Returns undefined
+ * for formats other than PNG, JPEG, and WebP.
+ */
+export function detectImageMimeType(base64: string): string | undefined {
+  const header = Buffer.from(base64.slice(0, 16), 'base64');
+  if (header[0] === 0x89 && header.toString('ascii', 1, 4) === 'PNG') {
+    return 'image/png';
+  }
+  if (header[0] === 0xff && header[1] === 0xd8) return 'image/jpeg';
+  if (header.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  return undefined;
+}
+
+/**
+ * Text of a chat message, with any image parts dropped.
+ */
+export function getMessageText(content: string | ChatContentPart[]): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Image parts of a chat message.
+ */
+export function getMessageImages(
+  content: string | ChatContentPart[],
+): ChatImagePart[] {
+  if (typeof content === 'string') return [];
+  return content.filter((part) => part.type === 'image');
+}
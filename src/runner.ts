@@ -1,32 +1,282 @@
+import { randomUUID } from 'node:crypto';
 import {
   pollForRequest,
   submitProgress,
   submitResult,
   disconnectHeartbeat,
+  getCancelledRequests,
+  getSyncedModels,
+  syncModels,
+  toSyncModelEntry,
   type LocalModelRequest,
+  type LocalModelContentPart,
+  type RequestResult,
+  type ServedBy,
   type SyncedModel,
 } from './api';
 import {
   getProvider,
   discoverAllModels,
+  addParameterSchemas,
+  resolveLocalModel,
+  hostPool,
+  isConnectionError,
   type Provider,
   type LocalModel,
+  type ModelCapability,
+  type ChatMessage,
+  type ChatContentPart,
+  type ChatUsage,
+  type ChatTiming,
+  type ToolCall,
+  type ToolCallDelta,
+  type NetworkWeight,
+  type ImageGenerationProgress,
 } from './providers';
+import {
+  downloadMedia,
+  detectImageMimeType,
+  getMessageImages,
+} from './providers/utils';
 import { requestEvents } from './events';
+import { RequestScheduler, type QueueEntry } from './scheduler';
+import { recordRequest } from './history';
+import { createStructuredOutputValidator } from './structured-output';
+
+/** How often local models are re-discovered while the tunnel runs */
+const DISCOVERY_INTERVAL_MS = 10_000;
+
+/** Minimum time between preview images sent for one request */
+const PREVIEW_INTERVAL_MS = 1000;
+
+function getModelKey(model: LocalModel): string {
+  return `${model.provider}/${model.name}`;
+}
+
+function computeTokensPerSecond(
+  tokens: number | undefined,
+  durationMs: number | undefined,
+): number | undefined {
+  if (!tokens || !durationMs || durationMs <= 0) return undefined;
+  return Math.round((tokens / durationMs) * 1000 * 10) / 10;
+}
+
+/**
+ * Turn platform content parts into provider content, downloading image URLs
+ * so providers only ever see base64 data.
+ */
+async function resolveMessageContent(
+  content: string | LocalModelContentPart[],
+  signal: AbortSignal,
+): Promise<string | ChatContentPart[]> {
+  if (typeof content === 'string') return content;
+
+  return Promise.all(
+    content.map(async (part): Promise<ChatContentPart> => {
+      if (part.type === 'text') return part;
+      if (part.base64) {
+        return {
+          type: 'image',
+          base64: part.base64,
+          mimeType: part.mimeType ?? 'image/png',
+        };
+      }
+      if (!part.url) {
+        throw new Error('Image content part has neither url nor base64');
+      }
+      const { data, mimeType } = await downloadMedia(part.url, signal);
+      return {
+        type: 'image',
+        base64: data.toString('base64'),
+        mimeType: part.mimeType ?? mimeType,
+      };
+    }),
+  );
+}
+
+/**
+ * Download an image URL from the request config as base64. Returns
+ * undefined when the parameter is unset.
+ */
+async function downloadImageParam(
+  value: unknown,
+  signal: AbortSignal,
+): Promise<string | undefined> {
+  if (typeof value !== 'string' || !value) return undefined;
+  const { data } = await downloadMedia(value, signal);
+  return data.toString('base64');
+}
+
+/**
+ * Read a list of names from the request config: an array, or a
+ * comma-separated string.
+ */
+function parseNameList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const names = items
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : undefined;
+}
+
+/**
+ * Read LoRA-style selections from the request config. Accepts objects
+ * (`{ name, weight }`, with `id` or `strength` as alternatives) and
+ * `name:weight` strings. Weight defaults to 1.
+ */
+function parseNetworkWeights(value: unknown): NetworkWeight[] | undefined {
+  if (!Array.isArray(value)) {
+    const names = parseNameList(value);
+    return names && parseNetworkWeights(names);
+  }
+
+  const networks: NetworkWeight[] = [];
+  for (const item of value) {
+    let name: unknown;
+    let weight: unknown;
+    if (typeof item === 'string') {
+      [name, weight] = item.split(':').map((part) => part.trim());
+    } else if (item && typeof item === 'object') {
+      const entry = item as Record<string, unknown>;
+      name = entry.name ?? entry.id;
+      weight = entry.weight ?? entry.strength;
+    }
+    if (typeof name === 'string' && name) {
+      const parsed = Number(weight ?? 1);
+      networks.push({ name, weight: Number.isFinite(parsed) ? parsed : 1 });
+    }
+  }
+  return networks.length > 0 ? networks : undefined;
+}
+
+/**
+ * Merge a streamed tool call fragment into the calls accumulated so far.
+ */
+function applyToolCallDelta(
+  toolCalls: ToolCall[],
+  delta: ToolCallDelta,
+  requestId: string,
+): void {
+  let call = toolCalls[delta.index];
+  if (!call) {
+    call = {
+      id: delta.id ?? `call_${requestId}_${delta.index}`,
+      type: 'function',
+      function: { name: '', arguments: '' },
+    };
+    toolCalls[delta.index] = call;
+  }
+  if (delta.id) call.id = delta.id;
+  if (delta.name) call.function.name = delta.name;
+  if (delta.arguments) call.function.arguments += delta.arguments;
+}
 
 interface ModelMapping {
   provider: Provider;
+  /** The model name requests are published under */
+  publishedName: string;
   localModelName: string;
+  capability: ModelCapability;
+  vision?: boolean;
+  /** Set once a pooled host has been chosen for the request */
+  host?: string;
+}
+
+function getServedBy(mapping: ModelMapping): ServedBy {
+  return {
+    provider: mapping.provider.name,
+    model: mapping.localModelName,
+    host: mapping.host,
+  };
+}
+
+export interface TunnelRunnerOptions {
+  /** Only sync and serve models with these names. Defaults to all models. */
+  models?: string[];
+}
+
+/**
+ * Where a request's progress and result go: the platform for polled
+ * requests, or back to the caller for gateway requests and local replays.
+ */
+export interface RequestReporter {
+  progress(
+    content: string,
+    type?: 'chunk' | 'log' | 'tool_calls' | 'preview',
+  ): Promise<void>;
+  result(
+    success: boolean,
+    result?: RequestResult,
+    error?: string,
+    servedBy?: ServedBy,
+  ): Promise<void>;
+}
+
+function platformReporter(requestId: string): RequestReporter {
+  return {
+    progress: (content, type) => submitProgress(requestId, content, type),
+    result: (success, result, error, servedBy) =>
+      submitResult(requestId, success, result, error, servedBy),
+  };
+}
+
+interface ProcessOptions {
+  /** Set on replays: the id of the request that was replayed */
+  replayOf?: string;
+  /** Use this mapping instead of looking the model ID up in the model map */
+  mapping?: ModelMapping;
+  source?: 'gateway';
+}
+
+/** The final outcome of a replayed request */
+export interface ReplayOutcome {
+  success: boolean;
+  result?: RequestResult;
+  error?: string;
+  duration: number;
 }
 
 /**
  * TunnelRunner handles the polling and request processing loop.
  * It emits events that listeners (TUI or simple chalk output) can subscribe to.
+ *
+ * Requests run through a RequestScheduler so bursts don't overload local
+ * hardware: excess requests wait in a local queue, and models whose provider
+ * queue is full are left out of the poll until a slot frees up.
  */
 export class TunnelRunner {
   private isRunning = false;
+  /** Set once stopped, so gateway requests aren't queued during shutdown */
+  private halted = false;
   private modelMap: Map<string, ModelMapping> = new Map();
   private modelIds: string[] = [];
+  private syncedModels: SyncedModel[] = [];
+  /**
+   * Local models as of the last discovery, by provider and name. Held
+   * without provider-wide parameter schemas, which are only fetched for
+   * models being synced.
+   */
+  private localModels: Map<string, LocalModel> = new Map();
+  private refreshing: Promise<void> | undefined;
+  private queuedRequests: Map<string, LocalModelRequest> = new Map();
+  private abortControllers: Map<string, AbortController> = new Map();
+  /** Requests the platform abandoned — no result is submitted for these */
+  private platformCancelled: Set<string> = new Set();
+  /**
+   * Reporters for queued and running requests that never reached the
+   * platform: gateway requests and replays
+   */
+  private localReporters: Map<string, RequestReporter> = new Map();
+  private scheduler = new RequestScheduler((queue) =>
+    this.emitQueuePositions(queue),
+  );
+
+  constructor(private readonly options: TunnelRunnerOptions = {}) {}
 
   /**
    * Start with a pre-discovered list of synced models.
@@ -35,41 +285,226 @@ export class TunnelRunner {
   async start(syncedModels: SyncedModel[]): Promise<void> {
     if (this.isRunning) return;
 
+    syncedModels = syncedModels.filter((m) => this.isSelected(m.name));
     this.modelIds = syncedModels.map((m) => m.id);
+    this.syncedModels = syncedModels;
     this.isRunning = true;
+    this.halted = false;
 
     // Build cloud ID -> { provider, localModelName } mapping
-    const allModels = await discoverAllModels();
+    const allModels = await this.discoverLocalModels();
+    this.localModels = new Map(allModels.map((m) => [getModelKey(m), m]));
     this.buildModelMap(syncedModels, allModels);
 
     // Start polling loop
     this.pollLoop();
+    this.cancellationLoop();
+    this.discoveryLoop();
   }
 
   stop(): void {
-    this.isRunning = false;
+    this.halt();
     disconnectHeartbeat().catch(() => {});
   }
 
+  /**
+   * Stop taking requests and wait for in-flight ones to finish before
+   * disconnecting. Requests still running after `timeoutMs` are cancelled.
+   */
+  async drain(timeoutMs: number): Promise<void> {
+    this.halt();
+
+    const deadline = Date.now() + timeoutMs;
+    while (this.abortControllers.size > 0 && Date.now() < deadline) {
+      await this.sleep(250);
+    }
+    for (const id of [...this.abortControllers.keys()]) {
+      this.cancelRequest(id);
+    }
+    // Give cancelled requests a moment to report back
+    const cancelDeadline = Date.now() + 5000;
+    while (this.abortControllers.size > 0 && Date.now() < cancelDeadline) {
+      await this.sleep(100);
+    }
+
+    await disconnectHeartbeat().catch(() => {});
+  }
+
+  /** Number of requests currently running */
+  get activeCount(): number {
+    return this.abortControllers.size;
+  }
+
+  private halt(): void {
+    this.isRunning = false;
+    this.halted = true;
+
+    // Queued requests will never run — release them back to the platform
+    for (const id of this.scheduler.drainQueue()) {
+      this.queuedRequests.delete(id);
+      this.getReporter(id)
+        .result(false, undefined, 'Tunnel stopped')
+        .catch(() => {});
+      this.localReporters.delete(id);
+      requestEvents.emitComplete({
+        id,
+        success: false,
+        duration: 0,
+        error: 'Tunnel stopped',
+      });
+    }
+  }
+
+  /**
+   * Cancel a queued or running request. Queued requests are dropped before
+   * they start; running requests are aborted, which interrupts the provider.
+   * Returns false if the request isn't queued or running.
+   */
+  cancelRequest(
+    requestId: string,
+    source: 'local' | 'platform' = 'local',
+  ): boolean {
+    if (source === 'platform') {
+      this.platformCancelled.add(requestId);
+    }
+
+    if (this.scheduler.remove(requestId)) {
+      this.queuedRequests.delete(requestId);
+      this.reportCancelled(requestId, 0);
+      this.localReporters.delete(requestId);
+      return true;
+    }
+
+    const controller = this.abortControllers.get(requestId);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+
+    this.platformCancelled.delete(requestId);
+    return false;
+  }
+
+  /**
+   * Re-discover local models, sync the ones that were added or changed, and
+   * re-resolve every synced model. Runs periodically, and on demand e.g.
+   * after aliases change. In-flight requests keep the mapping they started
+   * with.
+   */
+  refreshModelMap(): Promise<void> {
+    this.refreshing ??= this.rediscover().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  private isSelected(name: string): boolean {
+    return !this.options.models || this.options.models.includes(name);
+  }
+
+  private async discoverLocalModels(): Promise<LocalModel[]> {
+    return (await discoverAllModels()).filter(
+      (m) => !m.statusHint && this.isSelected(m.name),
+    );
+  }
+
+  private async rediscover(): Promise<void> {
+    const allModels = await this.discoverLocalModels();
+    const current = new Map(allModels.map((m) => [getModelKey(m), m]));
+    const previous = this.localModels;
+
+    const added = allModels.filter((m) => !previous.has(getModelKey(m)));
+    const removed = [...previous.values()].filter(
+      (m) => !current.has(getModelKey(m)),
+    );
+    const changed = allModels.filter((m) => {
+      const before = previous.get(getModelKey(m));
+      return (
+        before &&
+        JSON.stringify(toSyncModelEntry(before)) !==
+          JSON.stringify(toSyncModelEntry(m))
+      );
+    });
+
+    // Only send the delta — if either call fails, nothing below is recorded
+    // and the same delta is retried on the next pass
+    const delta = [...added, ...changed];
+    if (delta.length > 0) {
+      const withParameters = await addParameterSchemas(delta);
+      await syncModels(withParameters.map(toSyncModelEntry));
+    }
+    if (added.length > 0) {
+      this.syncedModels = (await getSyncedModels()).filter((m) =>
+        this.isSelected(m.name),
+      );
+      this.modelIds = this.syncedModels.map((m) => m.id);
+    }
+
+    const wasMapped = new Set(this.modelMap.keys());
+    this.localModels = current;
+    this.buildModelMap(this.syncedModels, allModels);
+
+    // Stop polling for models that lost their local model, so their
+    // requests go to another tunnel rather than failing here
+    if (removed.length > 0) {
+      this.modelIds = this.modelIds.filter(
+        (id) => this.modelMap.has(id) || !wasMapped.has(id),
+      );
+    }
+
+    const timestamp = Date.now();
+    for (const model of added) {
+      requestEvents.emitModelAdded({
+        name: model.name,
+        provider: model.provider,
+        capability: model.capability,
+        timestamp,
+      });
+    }
+    for (const model of removed) {
+      requestEvents.emitModelRemoved({
+        name: model.name,
+        provider: model.provider,
+        capability: model.capability,
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Periodically re-discover local models so newly pulled models (or
+   * models that went away) are picked up without restarting the tunnel.
+   */
+  private async discoveryLoop(): Promise<void> {
+    while (this.isRunning) {
+      await this.sleep(DISCOVERY_INTERVAL_MS);
+      if (!this.isRunning) break;
+
+      try {
+        await this.refreshModelMap();
+      } catch {
+        // Non-critical — try again on the next tick
+      }
+    }
+  }
+
   private buildModelMap(
     syncedModels: SyncedModel[],
     localModels: LocalModel[],
   ): void {
     this.modelMap.clear();
-    // Index local models by name for fast lookup
-    const localByName = new Map<string, LocalModel>();
-    for (const model of localModels) {
-      localByName.set(model.name, model);
-    }
-    // Map cloud ID -> provider + local model name
+    // Map cloud ID -> provider + local model name, following aliases
     for (const synced of syncedModels) {
-      const local = localByName.get(synced.name);
+      const local = resolveLocalModel(synced.name, localModels);
       if (local) {
         const provider = getProvider(local.provider);
         if (provider) {
           this.modelMap.set(synced.id, {
             provider,
+            publishedName: synced.name,
             localModelName: local.name,
+            capability: local.capability,
+            vision: local.vision,
           });
         }
       }
@@ -78,11 +513,28 @@ export class TunnelRunner {
 
   private async pollLoop(): Promise<void> {
     while (this.isRunning) {
+      if (this.modelIds.length === 0) {
+        // Nothing synced yet — wait for discovery to add models
+        await this.sleep(1000);
+        continue;
+      }
+
+      const pollableIds = this.getPollableModelIds();
+      if (pollableIds.length === 0) {
+        // Every provider is saturated — wait for a slot before polling again
+        await this.scheduler.waitForCapacity();
+        continue;
+      }
+
       try {
-        const request = await pollForRequest(this.modelIds);
-        if (request) {
-          // Process request in background
-          this.processRequest(request);
+        const request = await pollForRequest(pollableIds);
+        if (request && !this.isRunning) {
+          // Stopped while the poll was open — hand the request back
+          submitResult(request.id, false, undefined, 'Tunnel stopped').catch(
+            () => {},
+          );
+        } else if (request) {
+          this.scheduleRequest(request);
         }
       } catch (error) {
         // Wait before retrying on error
@@ -91,22 +543,278 @@ export class TunnelRunner {
     }
   }
 
-  private async processRequest(request: LocalModelRequest): Promise<void> {
+  /**
+   * Model IDs whose provider can still take work (running or queued).
+   * Unmapped models stay pollable so their requests fail fast.
+   */
+  private getPollableModelIds(): string[] {
+    return this.modelIds.filter((id) => {
+      const mapping = this.modelMap.get(id);
+      if (!mapping) return true;
+      return this.scheduler.canAccept({
+        provider: mapping.provider.name,
+        capability: mapping.capability,
+      });
+    });
+  }
+
+  private scheduleRequest(request: LocalModelRequest): void {
+    const mapping = this.modelMap.get(request.modelId);
+    if (!mapping) {
+      // Nothing to schedule — processRequest reports the missing model
+      this.processRequest(request);
+      return;
+    }
+
+    this.queuedRequests.set(request.id, request);
+    this.scheduler.submit(
+      request.id,
+      { provider: mapping.provider.name, capability: mapping.capability },
+      () => {
+        this.queuedRequests.delete(request.id);
+        return this.processRequest(request);
+      },
+    );
+  }
+
+  /**
+   * Periodically ask the platform whether any queued or running request was
+   * abandoned, and cancel those locally so the hardware is freed.
+   */
+  private async cancellationLoop(): Promise<void> {
+    while (this.isRunning) {
+      await this.sleep(3000);
+
+      // Gateway requests and replays never reached the platform
+      const pendingIds = [
+        ...this.queuedRequests.keys(),
+        ...this.abortControllers.keys(),
+      ].filter((id) => !this.localReporters.has(id));
+      if (pendingIds.length === 0) continue;
+
+      try {
+        const cancelled = await getCancelledRequests(pendingIds);
+        for (const id of cancelled) {
+          this.cancelRequest(id, 'platform');
+        }
+      } catch {
+        // Non-critical — try again on the next tick
+      }
+    }
+  }
+
+  private getReporter(requestId: string): RequestReporter {
+    return this.localReporters.get(requestId) ?? platformReporter(requestId);
+  }
+
+  private reportCancelled(
+    requestId: string,
+    duration: number,
+    reporter: RequestReporter = this.getReporter(requestId),
+  ): void {
+    if (!this.platformCancelled.delete(requestId)) {
+      reporter.result(false, undefined, 'Request cancelled').catch(() => {});
+    }
+    requestEvents.emitComplete({
+      id: requestId,
+      success: false,
+      duration,
+      error: 'Cancelled',
+      cancelled: true,
+    });
+  }
+
+  private emitQueuePositions(queue: QueueEntry[]): void {
+    for (const entry of queue) {
+      const request = this.queuedRequests.get(entry.id);
+      if (!request) continue;
+      requestEvents.emitQueued({
+        id: request.id,
+        modelId: request.modelId,
+        requestType: request.requestType,
+        position: entry.position,
+        depth: queue.length,
+        // Replays aren't in queuedRequests, so these are gateway requests
+        ...(this.localReporters.has(request.id) && {
+          source: 'gateway' as const,
+        }),
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Run a request from the local gateway on a discovered model. It waits in
+   * the same queue and emits the same events as platform requests; progress
+   * and the result go to `reporter`. `request.modelId` is the requested
+   * model name, which may be an alias of `model`.
+   */
+  submitLocal(
+    request: LocalModelRequest,
+    model: LocalModel,
+    reporter: RequestReporter,
+  ): void {
+    // The gateway also runs before the tunnel connects, so only refuse
+    // requests once the runner has been stopped
+    if (this.halted) {
+      reporter.result(false, undefined, 'Tunnel stopped').catch(() => {});
+      return;
+    }
+
+    const provider = getProvider(model.provider);
+    if (!provider) {
+      reporter
+        .result(false, undefined, `Provider ${model.provider} not found`)
+        .catch(() => {});
+      return;
+    }
+
+    const mapping: ModelMapping = {
+      provider,
+      publishedName: request.modelId,
+      localModelName: model.name,
+      capability: model.capability,
+      vision: model.vision,
+    };
+
+    this.localReporters.set(request.id, reporter);
+    this.queuedRequests.set(request.id, request);
+    this.scheduler.submit(
+      request.id,
+      { provider: provider.name, capability: model.capability },
+      async () => {
+        this.queuedRequests.delete(request.id);
+        try {
+          await this.processRequest(request, reporter, {
+            mapping,
+            source: 'gateway',
+          });
+        } finally {
+          this.localReporters.delete(request.id);
+        }
+      },
+    );
+  }
+
+  /**
+   * Re-run a request from the history against the local provider. Progress
+   * and the result stay local — nothing is sent to the platform. Gateway
+   * requests are matched to a local model by name.
+   */
+  async replay(request: LocalModelRequest): Promise<ReplayOutcome> {
     const startTime = Date.now();
+    const replay = { ...request, id: `replay-${randomUUID().slice(0, 8)}` };
+    const mapping =
+      this.modelMap.get(request.modelId) ??
+      (await this.getLocalMapping(request.modelId));
+
+    return new Promise((resolve) => {
+      const noResult = () =>
+        resolve({ success: false, error: 'No result', duration: 0 });
+      // Also called when the replay is cancelled while still queued
+      const reporter: RequestReporter = {
+        progress: async () => {},
+        result: async (success, result, error) => {
+          resolve({ success, result, error, duration: Date.now() - startTime });
+        },
+      };
+      const run = () =>
+        this.processRequest(replay, reporter, {
+          replayOf: request.id,
+          mapping,
+        });
+
+      // Without a local model there's nothing to queue for — fail right away
+      if (!mapping) {
+        run().finally(noResult);
+        return;
+      }
+
+      // Wait in the scheduler like any other request, so replays respect
+      // the per-provider and per-capability limits
+      this.localReporters.set(replay.id, reporter);
+      this.scheduler.submit(
+        replay.id,
+        { provider: mapping.provider.name, capability: mapping.capability },
+        async () => {
+          try {
+            await run();
+          } finally {
+            this.localReporters.delete(replay.id);
+            noResult();
+          }
+        },
+      );
+    });
+  }
+
+  private async getLocalMapping(
+    name: string,
+  ): Promise<ModelMapping | undefined> {
+    const local = resolveLocalModel(name, await discoverAllModels());
+    const provider = local && getProvider(local.provider);
+    if (!local || !provider) return undefined;
+    return {
+      provider,
+      publishedName: name,
+      localModelName: local.name,
+      capability: local.capability,
+      vision: local.vision,
+    };
+  }
+
+  private async processRequest(
+    request: LocalModelRequest,
+    platform: RequestReporter = platformReporter(request.id),
+    { replayOf, mapping: explicitMapping, source }: ProcessOptions = {},
+  ): Promise<void> {
+    const startTime = Date.now();
+    const mapping = explicitMapping ?? this.modelMap.get(request.modelId);
+    const modelName =
+      mapping?.publishedName ??
+      this.syncedModels.find((m) => m.id === request.modelId)?.name;
+
+    // Record every outcome in the local request history
+    const reporter: RequestReporter = {
+      progress: platform.progress,
+      result: async (success, result, error, servedBy) => {
+        recordRequest({
+          request,
+          replayOf,
+          modelName,
+          servedBy,
+          startedAt: startTime,
+          duration: Date.now() - startTime,
+          status: success
+            ? 'completed'
+            : error === 'Request cancelled'
+              ? 'cancelled'
+              : 'failed',
+          error,
+          result,
+        });
+        await platform.result(success, result, error, servedBy);
+      },
+    };
 
     // Emit start event
     requestEvents.emitStart({
       id: request.id,
       modelId: request.modelId,
       requestType: request.requestType,
+      ...(mapping &&
+        mapping.localModelName !== mapping.publishedName && {
+          localModel: mapping.localModelName,
+        }),
+      ...(source && { source }),
       timestamp: startTime,
     });
 
-    const mapping = this.modelMap.get(request.modelId);
-
     if (!mapping) {
-      const error = `Model ${request.modelId} not found`;
-      await submitResult(request.id, false, undefined, error);
+      const error = modelName
+        ? `Model ${modelName} not found locally. Pull it, or add an alias pointing it at a local model.`
+        : `Model ${request.modelId} not found`;
+      await reporter.result(false, undefined, error);
       requestEvents.emitComplete({
         id: request.id,
         success: false,
@@ -116,61 +824,217 @@ export class TunnelRunner {
       return;
     }
 
+    const controller = new AbortController();
+    this.abortControllers.set(request.id, controller);
+    const { signal } = controller;
+
     try {
-      switch (request.requestType) {
-        case 'llm_chat':
-          await this.handleTextRequest(request, mapping, startTime);
-          break;
-        case 'image_generation':
-          await this.handleImageRequest(request, mapping, startTime);
-          break;
-        case 'video_generation':
-          await this.handleVideoRequest(request, mapping, startTime);
-          break;
-        default:
-          throw new Error(`Unsupported request type: ${request.requestType}`);
-      }
+      await this.runOnHost(request, mapping, startTime, signal, reporter);
     } catch (error) {
+      if (signal.aborted) {
+        this.reportCancelled(request.id, Date.now() - startTime, reporter);
+        return;
+      }
+
       const message = error instanceof Error ? error.message : 'Unknown error';
-      await submitResult(request.id, false, undefined, message);
+      await reporter.result(false, undefined, message);
       requestEvents.emitComplete({
         id: request.id,
         success: false,
         duration: Date.now() - startTime,
         error: message,
       });
+    } finally {
+      this.abortControllers.delete(request.id);
+    }
+  }
+
+  /**
+   * Run a request on a host from the provider's pool. If the host stops
+   * answering, it is marked down and the request moves to the next one.
+   * Providers without a pool run the request directly.
+   */
+  private async runOnHost(
+    request: LocalModelRequest,
+    mapping: ModelMapping,
+    startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
+  ): Promise<void> {
+    const { provider, localModelName } = mapping;
+    const failedHosts = new Set<string>();
+
+    while (true) {
+      const lease = hostPool.acquire(provider, localModelName, failedHosts);
+      if (lease.host) {
+        requestEvents.emitProgress({ id: request.id, host: lease.host });
+      }
+
+      try {
+        await this.handleRequest(
+          request,
+          { ...mapping, provider: lease.provider, host: lease.host },
+          startTime,
+          signal,
+          reporter,
+        );
+        if (lease.host) {
+          hostPool.markServed(provider, lease.host, localModelName);
+        }
+        return;
+      } catch (error) {
+        if (!lease.host || signal.aborted || !isConnectionError(error)) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        hostPool.markDown(provider, lease.host, message);
+        failedHosts.add(lease.host);
+        if (!hostPool.hasCandidate(provider, localModelName, failedHosts)) {
+          throw error;
+        }
+        await reporter.progress(
+          `Host ${lease.host} stopped responding, retrying on another host`,
+          'log',
+        );
+      } finally {
+        lease.release();
+      }
+    }
+  }
+
+  private async handleRequest(
+    request: LocalModelRequest,
+    mapping: ModelMapping,
+    startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
+  ): Promise<void> {
+    switch (request.requestType) {
+      case 'llm_chat':
+        return this.handleTextRequest(
+          request,
+          mapping,
+          startTime,
+          signal,
+          reporter,
+        );
+      case 'embedding':
+        return this.handleEmbeddingRequest(
+          request,
+          mapping,
+          startTime,
+          signal,
+          reporter,
+        );
+      case 'image_generation':
+        return this.handleImageRequest(
+          request,
+          mapping,
+          startTime,
+          signal,
+          reporter,
+        );
+      case 'video_generation':
+        return this.handleVideoRequest(
+          request,
+          mapping,
+          startTime,
+          signal,
+          reporter,
+        );
+      case 'text_to_speech':
+        return this.handleSpeechRequest(
+          request,
+          mapping,
+          startTime,
+          signal,
+          reporter,
+        );
+      case 'speech_to_text':
+        return this.handleTranscriptionRequest(
+          request,
+          mapping,
+          startTime,
+          signal,
+          reporter,
+        );
+      default:
+        throw new Error(`Unsupported request type: ${request.requestType}`);
     }
   }
 
   private async handleTextRequest(
     request: LocalModelRequest,
-    { provider, localModelName }: ModelMapping,
+    mapping: ModelMapping,
     startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
   ): Promise<void> {
+    const { provider, localModelName, vision } = mapping;
+
     if (!provider.chat) {
       throw new Error(`Provider does not support text generation`);
     }
 
-    const messages = (request.payload.messages || []).map((m) => ({
-      role: m.role as 'user' | 'assistant' | 'system',
-      content: m.content,
-    }));
+    const messages: ChatMessage[] = await Promise.all(
+      (request.payload.messages || []).map(async (m) => ({
+        role: m.role as ChatMessage['role'],
+        content: await resolveMessageContent(m.content ?? '', signal),
+        toolCalls: m.toolCalls,
+        toolCallId: m.toolCallId,
+        name: m.name,
+      })),
+    );
+
+    if (
+      vision === false &&
+      messages.some((m) => getMessageImages(m.content).length > 0)
+    ) {
+      throw new Error(`Model ${localModelName} does not support image input`);
+    }
+
+    const { responseFormat } = request.payload;
+    const validateOutput =
+      responseFormat && createStructuredOutputValidator(responseFormat);
 
     const stream = provider.chat(localModelName, messages, {
       temperature: request.payload.temperature,
       maxTokens: request.payload.maxTokens,
+      tools: request.payload.tools,
+      toolChoice: request.payload.toolChoice,
+      responseFormat,
+      signal,
     });
 
     let fullContent = '';
+    const toolCalls: ToolCall[] = [];
+    let toolCallsChanged = false;
     let lastProgressUpdate = 0;
     const progressInterval = 100;
+    const generationStart = Date.now();
+    let firstTokenAt: number | undefined;
+    let usage: ChatUsage | undefined;
+    let timing: ChatTiming | undefined;
 
     for await (const chunk of stream) {
       fullContent += chunk.content;
+      if (chunk.content && firstTokenAt === undefined) {
+        firstTokenAt = Date.now();
+      }
+      if (chunk.usage) usage = chunk.usage;
+      if (chunk.timing) timing = chunk.timing;
+      for (const delta of chunk.toolCalls ?? []) {
+        applyToolCallDelta(toolCalls, delta, request.id);
+        toolCallsChanged = true;
+      }
 
       const now = Date.now();
       if (now - lastProgressUpdate > progressInterval) {
-        await submitProgress(request.id, fullContent);
+        await reporter.progress(fullContent);
+        if (toolCallsChanged) {
+          await reporter.progress(JSON.stringify(toolCalls), 'tool_calls');
+          toolCallsChanged = false;
+        }
         requestEvents.emitProgress({
           id: request.id,
           content: fullContent,
@@ -179,25 +1043,181 @@ export class TunnelRunner {
       }
     }
 
-    await submitProgress(request.id, fullContent);
-    await submitResult(request.id, true, {
-      content: fullContent,
-      usage: { promptTokens: 0, completionTokens: 0 },
+    const generationEnd = Date.now();
+    const tokensPerSecond = computeTokensPerSecond(
+      usage?.completionTokens,
+      // Prefer the provider's eval time; otherwise time from first to last token
+      timing?.evalMs ??
+        (firstTokenAt !== undefined ? generationEnd - firstTokenAt : undefined),
+    );
+
+    await reporter.progress(fullContent);
+    if (toolCallsChanged) {
+      await reporter.progress(JSON.stringify(toolCalls), 'tool_calls');
+    }
+
+    // A turn that only calls tools has no content to check
+    const validationErrors =
+      validateOutput && toolCalls.length === 0
+        ? validateOutput(fullContent)
+        : [];
+    if (validationErrors.length > 0) {
+      const error = 'Model output did not match the requested response format';
+      await reporter.result(
+        false,
+        { content: fullContent, validationErrors },
+        error,
+        getServedBy(mapping),
+      );
+      requestEvents.emitComplete({
+        id: request.id,
+        success: false,
+        duration: Date.now() - startTime,
+        error: `${error}: ${validationErrors[0]!.path || '/'} ${validationErrors[0]!.message}`,
+      });
+      return;
+    }
+
+    await reporter.result(
+      true,
+      {
+        content: fullContent,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        usage: usage ?? { promptTokens: 0, completionTokens: 0 },
+        timing: {
+          totalMs: timing?.totalMs ?? generationEnd - generationStart,
+          timeToFirstTokenMs:
+            firstTokenAt !== undefined
+              ? firstTokenAt - generationStart
+              : undefined,
+          loadMs: timing?.loadMs,
+          promptEvalMs: timing?.promptEvalMs,
+          tokensPerSecond,
+        },
+      },
+      undefined,
+      getServedBy(mapping),
+    );
+
+    requestEvents.emitComplete({
+      id: request.id,
+      success: true,
+      duration: Date.now() - startTime,
+      result: {
+        chars: fullContent.length,
+        promptTokens: usage?.promptTokens,
+        completionTokens: usage?.completionTokens,
+        tokensPerSecond,
+        ...(toolCalls.length > 0 && { toolCalls: toolCalls.length }),
+      },
+    });
+  }
+
+  private async handleEmbeddingRequest(
+    request: LocalModelRequest,
+    mapping: ModelMapping,
+    startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
+  ): Promise<void> {
+    const { provider, localModelName } = mapping;
+
+    if (!provider.embed) {
+      throw new Error(`Provider does not support embeddings`);
+    }
+
+    const input = request.payload.input ?? request.payload.prompt ?? '';
+    const inputs = Array.isArray(input) ? input : [input];
+    if (inputs.length === 0) {
+      throw new Error('No input to embed');
+    }
+
+    const result = await provider.embed(localModelName, inputs, {
+      dimensions: request.payload.dimensions,
+      signal,
     });
 
+    if (result.embeddings.length !== inputs.length) {
+      throw new Error(
+        `Expected ${inputs.length} embeddings, got ${result.embeddings.length}`,
+      );
+    }
+
+    await reporter.result(
+      true,
+      {
+        embeddings: result.embeddings,
+        usage: { promptTokens: result.promptTokens ?? 0 },
+      },
+      undefined,
+      getServedBy(mapping),
+    );
+
     requestEvents.emitComplete({
       id: request.id,
       success: true,
       duration: Date.now() - startTime,
-      result: { chars: fullContent.length },
+      result: {
+        embeddings: result.embeddings.length,
+        dimensions: result.embeddings[0]?.length,
+      },
     });
   }
 
+  /**
+   * Progress callback for image and video generation. Step changes go to
+   * the request log; previews go to the platform (as data URLs) and the TUI,
+   * at most once per PREVIEW_INTERVAL_MS.
+   */
+  private createGenerationProgress(
+    requestId: string,
+    reporter: RequestReporter,
+  ): (progress: ImageGenerationProgress) => Promise<void> {
+    let lastStep: number | undefined;
+    let lastActivity: string | undefined;
+    let lastPreviewAt = 0;
+
+    return async ({ step, totalSteps, preview, activity }) => {
+      if (activity && activity !== lastActivity) {
+        lastActivity = activity;
+        await reporter.progress(activity, 'log');
+      }
+      if (totalSteps > 0 && step !== lastStep) {
+        lastStep = step;
+        await reporter.progress(`Step ${step}/${totalSteps}`, 'log');
+      }
+
+      const now = Date.now();
+      const sendPreview =
+        preview !== undefined && now - lastPreviewAt >= PREVIEW_INTERVAL_MS;
+      if (sendPreview) {
+        lastPreviewAt = now;
+        const mimeType = detectImageMimeType(preview) ?? 'image/png';
+        await reporter.progress(
+          `data:${mimeType};base64,${preview}`,
+          'preview',
+        );
+      }
+
+      requestEvents.emitProgress({
+        id: requestId,
+        step,
+        totalSteps,
+        ...(sendPreview && { preview }),
+        ...(activity && { activity }),
+      });
+    };
+  }
+
   private async handleImageRequest(
     request: LocalModelRequest,
-    { provider, localModelName }: ModelMapping,
+    mapping: ModelMapping,
     startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
   ): Promise<void> {
+    const { provider, localModelName } = mapping;
+
     if (!provider.generateImage) {
       throw new Error(`Provider does not support image generation`);
     }
@@ -205,6 +1225,17 @@ export class TunnelRunner {
     const prompt = request.payload.prompt || '';
     const config = request.payload.config || {};
 
+    // Other providers ignore these, so don't spend time downloading them
+    const [initImage, mask] = provider.acceptsInitImage
+      ? await Promise.all([
+          downloadImageParam(config.initImage, signal),
+          downloadImageParam(config.mask, signal),
+        ])
+      : [];
+    if (mask && !initImage) {
+      throw new Error('Inpainting needs an init image as well as a mask');
+    }
+
     const result = await provider.generateImage(
       localModelName,
       prompt,
@@ -217,26 +1248,30 @@ export class TunnelRunner {
         seed: config.seed as number | undefined,
         sampler: config.sampler as string | undefined,
         workflow: config.workflow as Record<string, unknown> | undefined,
+        workflowInputs: config,
+        loras: parseNetworkWeights(config.loras),
+        hypernetworks: parseNetworkWeights(config.hypernetworks),
+        embeddings: parseNameList(config.embeddings),
+        negativeEmbeddings: parseNameList(config.negativeEmbeddings),
+        initImage,
+        mask,
+        denoisingStrength: config.denoisingStrength as number | undefined,
+        signal,
       },
-      async (progress) => {
-        await submitProgress(
-          request.id,
-          `Step ${progress.step}/${progress.totalSteps}`,
-          'log',
-        );
-        requestEvents.emitProgress({
-          id: request.id,
-          step: progress.step,
-          totalSteps: progress.totalSteps,
-        });
-      },
+      this.createGenerationProgress(request.id, reporter),
     );
 
-    await submitResult(request.id, true, {
-      imageBase64: result.imageBase64,
-      mimeType: result.mimeType,
-      seed: result.seed,
-    });
+    await reporter.result(
+      true,
+      {
+        imageBase64: result.imageBase64,
+        mimeType: result.mimeType,
+        seed: result.seed,
+        additionalOutputs: result.additionalOutputs,
+      },
+      undefined,
+      getServedBy(mapping),
+    );
 
     const imageSize = Math.round((result.imageBase64.length * 3) / 4);
 
@@ -250,9 +1285,13 @@ export class TunnelRunner {
 
   private async handleVideoRequest(
     request: LocalModelRequest,
-    { provider, localModelName }: ModelMapping,
+    mapping: ModelMapping,
     startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
   ): Promise<void> {
+    const { provider, localModelName } = mapping;
+
     if (!provider.generateVideo) {
       throw new Error(`Provider does not support video generation`);
     }
@@ -273,28 +1312,25 @@ export class TunnelRunner {
         cfgScale: config.cfgScale as number | undefined,
         seed: config.seed as number | undefined,
         workflow: config.workflow as Record<string, unknown> | undefined,
+        workflowInputs: config,
+        signal,
       },
-      async (progress) => {
-        await submitProgress(
-          request.id,
-          `Step ${progress.step}/${progress.totalSteps}`,
-          'log',
-        );
-        requestEvents.emitProgress({
-          id: request.id,
-          step: progress.step,
-          totalSteps: progress.totalSteps,
-        });
-      },
+      this.createGenerationProgress(request.id, reporter),
     );
 
-    await submitResult(request.id, true, {
-      videoBase64: result.videoBase64,
-      mimeType: result.mimeType,
-      duration: result.duration,
-      fps: result.fps,
-      seed: result.seed,
-    });
+    await reporter.result(
+      true,
+      {
+        videoBase64: result.videoBase64,
+        mimeType: result.mimeType,
+        duration: result.duration,
+        fps: result.fps,
+        seed: result.seed,
+        additionalOutputs: result.additionalOutputs,
+      },
+      undefined,
+      getServedBy(mapping),
+    );
 
     const videoSize = Math.round((result.videoBase64.length * 3) / 4);
 
@@ -306,6 +1342,104 @@ export class TunnelRunner {
     });
   }
 
+  private async handleSpeechRequest(
+    request: LocalModelRequest,
+    mapping: ModelMapping,
+    startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
+  ): Promise<void> {
+    const { provider, localModelName } = mapping;
+
+    if (!provider.synthesizeSpeech) {
+      throw new Error(`Provider does not support speech synthesis`);
+    }
+
+    const { input } = request.payload;
+    const text =
+      request.payload.prompt || (typeof input === 'string' ? input : '');
+    if (!text) {
+      throw new Error('No text to speak');
+    }
+    const config = request.payload.config || {};
+
+    const result = await provider.synthesizeSpeech(localModelName, text, {
+      voice: (config.voice as string | undefined) || undefined,
+      format: (config.format as string | undefined) || undefined,
+      speed: config.speed !== undefined ? Number(config.speed) : undefined,
+      signal,
+    });
+
+    await reporter.result(
+      true,
+      { audioBase64: result.audioBase64, mimeType: result.mimeType },
+      undefined,
+      getServedBy(mapping),
+    );
+
+    requestEvents.emitComplete({
+      id: request.id,
+      success: true,
+      duration: Date.now() - startTime,
+      result: { audioSize: Math.round((result.audioBase64.length * 3) / 4) },
+    });
+  }
+
+  private async handleTranscriptionRequest(
+    request: LocalModelRequest,
+    mapping: ModelMapping,
+    startTime: number,
+    signal: AbortSignal,
+    reporter: RequestReporter,
+  ): Promise<void> {
+    const { provider, localModelName } = mapping;
+
+    if (!provider.transcribe) {
+      throw new Error(`Provider does not support transcription`);
+    }
+
+    const { audio } = request.payload;
+    let data: Buffer;
+    let mimeType = audio?.mimeType;
+    if (audio?.base64) {
+      data = Buffer.from(audio.base64, 'base64');
+    } else if (audio?.url) {
+      const downloaded = await downloadMedia(audio.url, signal);
+      data = downloaded.data;
+      mimeType ??= downloaded.mimeType;
+    } else {
+      throw new Error('No audio to transcribe');
+    }
+    const config = request.payload.config || {};
+
+    const result = await provider.transcribe(localModelName, data, {
+      mimeType,
+      language: (config.language as string | undefined) || undefined,
+      prompt: request.payload.prompt || undefined,
+      temperature: request.payload.temperature,
+      signal,
+    });
+
+    await reporter.result(
+      true,
+      {
+        transcript: result.text,
+        language: result.language,
+        duration: result.duration,
+        segments: result.segments,
+      },
+      undefined,
+      getServedBy(mapping),
+    );
+
+    requestEvents.emitComplete({
+      id: request.id,
+      success: true,
+      duration: Date.now() - startTime,
+      result: { chars: result.text.length },
+    });
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -0,0 +1,198 @@
+import { getConcurrencyLimits } from './config';
+import type { ModelCapability } from './providers';
+
+/**
+ * The resources a request occupies while it runs. Limits are enforced
+ * globally, per provider, and per capability.
+ */
+export interface SchedulerLane {
+  provider: string;
+  capability: ModelCapability;
+}
+
+interface QueuedJob {
+  id: string;
+  lane: SchedulerLane;
+  run: () => Promise<void>;
+}
+
+export interface QueueEntry {
+  id: string;
+  /** 1-based position in the local queue */
+  position: number;
+}
+
+/**
+ * RequestScheduler bounds how many requests run at once.
+ *
+ * Jobs that can't start immediately wait in a FIFO queue. When a slot frees
+ * up, the queue is scanned in order and every job whose lane now has room is
+ * started — so a blocked image job never holds up a text job behind it.
+ * Limits are re-read from config on every decision so edits apply live.
+ */
+export class RequestScheduler {
+  private inFlight = 0;
+  private inFlightByProvider = new Map<string, number>();
+  private inFlightByCapability = new Map<string, number>();
+  private queue: QueuedJob[] = [];
+  private capacityWaiters: Array<() => void> = [];
+
+  constructor(
+    private readonly onQueueChange: (queue: QueueEntry[]) => void = () => {},
+  ) {}
+
+  /**
+   * Run a job now if its lane has capacity, otherwise queue it.
+   * Returns the job's 1-based queue position, or null if it started.
+   */
+  submit(
+    id: string,
+    lane: SchedulerLane,
+    run: () => Promise<void>,
+  ): number | null {
+    const job: QueuedJob = { id, lane, run };
+    this.queue.push(job);
+    this.dispatch();
+
+    const position = this.queue.indexOf(job) + 1;
+    if (position === 0) return null;
+    this.onQueueChange(this.getQueue());
+    return position;
+  }
+
+  /**
+   * Whether the runner should keep polling for models in this lane.
+   * False once the lane is at its in-flight limit and its provider's local
+   * queue is full.
+   */
+  canAccept(lane: SchedulerLane): boolean {
+    if (this.hasCapacity(lane)) return true;
+    const { maxQueuedPerProvider } = getConcurrencyLimits();
+    const queued = this.queue.filter(
+      (job) => job.lane.provider === lane.provider,
+    ).length;
+    return queued < maxQueuedPerProvider;
+  }
+
+  /**
+   * Resolve when a running job finishes (or after timeoutMs, so callers can
+   * pick up config or model changes).
+   */
+  waitForCapacity(timeoutMs = 5000): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, timeoutMs);
+      const waiters = this.capacityWaiters;
+      function done() {
+        clearTimeout(timer);
+        const idx = waiters.indexOf(done);
+        if (idx !== -1) waiters.splice(idx, 1);
+        resolve();
+      }
+      waiters.push(done);
+    });
+  }
+
+  getQueue(): QueueEntry[] {
+    return this.queue.map((job, i) => ({ id: job.id, position: i + 1 }));
+  }
+
+  get activeCount(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Remove a queued job before it starts. Returns false if the job isn't
+   * queued (already running, finished, or unknown).
+   */
+  remove(id: string): boolean {
+    const idx = this.queue.findIndex((job) => job.id === id);
+    if (idx === -1) return false;
+    this.queue.splice(idx, 1);
+    this.onQueueChange(this.getQueue());
+    this.wakeWaiters();
+    return true;
+  }
+
+  /**
+   * Remove every queued job and return their IDs. Running jobs are untouched.
+   */
+  drainQueue(): string[] {
+    const ids = this.queue.map((job) => job.id);
+    this.queue = [];
+    this.wakeWaiters();
+    return ids;
+  }
+
+  private hasCapacity(lane: SchedulerLane): boolean {
+    const limits = getConcurrencyLimits();
+    if (this.inFlight >= limits.maxConcurrent) return false;
+
+    const providerLimit = limits.perProvider[lane.provider];
+    if (
+      providerLimit !== undefined &&
+      (this.inFlightByProvider.get(lane.provider) ?? 0) >= providerLimit
+    ) {
+      return false;
+    }
+
+    const capabilityLimit = limits.perCapability[lane.capability];
+    if (
+      capabilityLimit !== undefined &&
+      (this.inFlightByCapability.get(lane.capability) ?? 0) >= capabilityLimit
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private startJob(job: QueuedJob): void {
+    this.adjust(job.lane, 1);
+    job
+      .run()
+      .catch(() => {
+        // Jobs report their own failures — nothing to do here
+      })
+      .finally(() => {
+        this.adjust(job.lane, -1);
+        if (this.dispatch()) {
+          this.onQueueChange(this.getQueue());
+        }
+        this.wakeWaiters();
+      });
+  }
+
+  /** Start every queued job whose lane has room, in FIFO order. */
+  private dispatch(): boolean {
+    let started = false;
+    for (let i = 0; i < this.queue.length; ) {
+      const job = this.queue[i]!;
+      if (this.hasCapacity(job.lane)) {
+        this.queue.splice(i, 1);
+        this.startJob(job);
+        started = true;
+      } else {
+        i++;
+      }
+    }
+    return started;
+  }
+
+  private adjust(lane: SchedulerLane, delta: 1 | -1): void {
+    this.inFlight += delta;
+    this.inFlightByProvider.set(
+      lane.provider,
+      (this.inFlightByProvider.get(lane.provider) ?? 0) + delta,
+    );
+    this.inFlightByCapability.set(
+      lane.capability,
+      (this.inFlightByCapability.get(lane.capability) ?? 0) + delta,
+    );
+  }
+
+  private wakeWaiters(): void {
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    for (const wake of waiters) wake();
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Headless Model Tunnel
+ *
+ * Runs the local model tunnel without the TUI, e.g. as a systemd service on
+ * a GPU box. Discovers providers, syncs the selected models, and serves
+ * requests with TunnelRunner until stopped.
+ *
+ * Outputs structured JSON events to stdout (one per line, newline-delimited),
+ * the same way headless dev mode does: request lifecycle, model changes, and
+ * provider health. Logs go to stderr.
+ *
+ * On SIGTERM/SIGINT the tunnel stops taking requests and lets in-flight ones
+ * finish before exiting.
+ *
+ * @module
+ */
+
+import { TunnelRunner } from './runner';
+import { ModelGateway } from './gateway';
+import { syncModels, getSyncedModels, toSyncModelEntry } from './api';
+import {
+  detectAllProviderStatuses,
+  discoverAllModelsWithParameters,
+} from './providers';
+import { requestEvents } from './events';
+import { emitEvent } from './dev/ipc/ipc';
+import {
+  getApiKey,
+  getApiBaseUrl,
+  getEnvironment,
+  getConfigPath,
+  getGatewaySettings,
+} from './config';
+import { initLoggerHeadless, log, type LogLevel } from './dev/logging/logger';
+
+/**
+ * Options for the headless model tunnel.
+ */
+export interface ServeOptions {
+  /** Only sync and serve these models (by name). Defaults to every discovered model. */
+  models?: string[];
+  /** How long in-flight requests may keep running after SIGTERM. Defaults to 60s. */
+  drainTimeoutMs?: number;
+  /** How often provider health is checked. Defaults to 15s. */
+  healthIntervalMs?: number;
+  /** Log level for stderr output. Defaults to 'info'. */
+  logLevel?: LogLevel;
+  /** Also serve the local OpenAI-compatible gateway. Defaults to the `gateway` config. */
+  gateway?: boolean;
+  /** Port for the gateway. Defaults to the `gateway` config. */
+  gatewayPort?: number;
+}
+
+/**
+ * Check every provider and emit `provider-status` when health changed since
+ * the last check. Returns the snapshot used for comparison.
+ */
+async function reportProviderHealth(previous: string): Promise<string> {
+  const statuses = await detectAllProviderStatuses();
+  const providers = statuses
+    .filter(({ status }) => status.installed || status.running)
+    .map(({ provider, status }) => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      running: status.running,
+      ...(status.hosts && {
+        hosts: status.hosts.map((h) => ({
+          baseUrl: h.baseUrl,
+          healthy: h.healthy,
+          models: h.models,
+          ...(h.lastError && { lastError: h.lastError }),
+        })),
+      }),
+    }));
+
+  const snapshot = JSON.stringify(providers);
+  if (snapshot !== previous) {
+    emitEvent('provider-status', { providers });
+  }
+  return snapshot;
+}
+
+function subscribeRequestEvents(): Array<() => void> {
+  return [
+    requestEvents.onQueued((event) =>
+      emitEvent('request-queued', { ...event }),
+    ),
+    requestEvents.onStart((event) => emitEvent('request-start', { ...event })),
+    requestEvents.onProgress(({ content, preview, ...event }) => {
+      // Streamed text is reported as a length — the full content on every
+      // update would grow quadratically. Preview images are only flagged.
+      emitEvent('request-progress', {
+        ...event,
+        ...(content !== undefined && { chars: content.length }),
+        ...(preview !== undefined && { preview: true }),
+      });
+    }),
+    requestEvents.onComplete((event) =>
+      emitEvent('request-complete', { ...event }),
+    ),
+    requestEvents.onModelAdded((event) =>
+      emitEvent('model-added', { ...event }),
+    ),
+    requestEvents.onModelRemoved((event) =>
+      emitEvent('model-removed', { ...event }),
+    ),
+  ];
+}
+
+/**
+ * Start the model tunnel in headless mode.
+ */
+export async function startServe(opts: ServeOptions = {}): Promise<void> {
+  initLoggerHeadless(opts.logLevel ?? 'info');
+
+  log.info('serve', 'Startup config', {
+    configPath: getConfigPath(),
+    environment: getEnvironment(),
+    apiBaseUrl: getApiBaseUrl(),
+    models: opts.models ?? null,
+  });
+
+  if (!getApiKey()) {
+    emitEvent('error', {
+      message: 'Not authenticated. Run mindstudio-local once to sign in.',
+    });
+    process.exitCode = 1;
+    return;
+  }
+
+  emitEvent('tunnel-starting', { environment: getEnvironment() });
+
+  let health = await reportProviderHealth('');
+
+  // Discover and sync the selected models
+  const selected = opts.models;
+  const discovered = (await discoverAllModelsWithParameters()).filter(
+    (m) => !selected || selected.includes(m.name),
+  );
+  for (const name of selected ?? []) {
+    if (!discovered.some((m) => m.name === name)) {
+      log.warn('serve', 'Selected model not found locally', { model: name });
+    }
+  }
+
+  let syncedModels;
+  try {
+    if (discovered.length > 0) {
+      await syncModels(discovered.map(toSyncModelEntry));
+    }
+    syncedModels = await getSyncedModels();
+  } catch (err) {
+    emitEvent('error', {
+      message: err instanceof Error ? err.message : 'Model sync failed',
+    });
+    process.exitCode = 1;
+    return;
+  }
+
+  const runner = new TunnelRunner({ models: selected });
+  const unsubscribers = subscribeRequestEvents();
+  await runner.start(syncedModels);
+
+  emitEvent('tunnel-started', {
+    models: discovered.map((m) => ({
+      name: m.name,
+      provider: m.provider,
+      capability: m.capability,
+    })),
+  });
+
+  const gatewaySettings = getGatewaySettings();
+  const gateway = new ModelGateway(runner);
+  if (opts.gateway ?? gatewaySettings.enabled) {
+    const { host } = gatewaySettings;
+    try {
+      const port = await gateway.start(
+        opts.gatewayPort ?? gatewaySettings.port,
+        host,
+      );
+      emitEvent('gateway-started', { url: `http://${host}:${port}/v1` });
+    } catch (err) {
+      // The tunnel still works without the gateway
+      log.error('serve', 'Gateway failed to start', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  const healthTimer = setInterval(() => {
+    reportProviderHealth(health)
+      .then((snapshot) => {
+        health = snapshot;
+      })
+      .catch((err) => {
+        log.warn('serve', 'Provider health check failed', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+  }, opts.healthIntervalMs ?? 15_000);
+
+  // Repeated signals wait for the same drain rather than cutting it short
+  let stopping: Promise<void> | undefined;
+  const shutdown = () =>
+    (stopping ??= (async () => {
+      clearInterval(healthTimer);
+      emitEvent('tunnel-stopping', { inFlight: runner.activeCount });
+      // Stop taking gateway requests before waiting on the ones in flight
+      await gateway.stop();
+      await runner.drain(opts.drainTimeoutMs ?? 60_000);
+      for (const unsub of unsubscribers) unsub();
+      emitEvent('tunnel-stopped');
+    })());
+
+  process.on('SIGTERM', () => {
+    shutdown().then(() => process.exit(0));
+  });
+  process.on('SIGINT', () => {
+    shutdown().then(() => process.exit(0));
+  });
+
+  // Keep the process alive — the poll loop runs in TunnelRunner
+  await new Promise<void>(() => {});
+}
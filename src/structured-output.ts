@@ -0,0 +1,50 @@
+import { Ajv, type ValidateFunction } from 'ajv';
+import type { StructuredOutputError } from './api';
+import type { ResponseFormat } from './providers';
+
+/**
+ * Checks a finished completion against the requested response format.
+ * Returns an empty list when the text is valid.
+ */
+export type StructuredOutputValidator = (
+  text: string,
+) => StructuredOutputError[];
+
+/**
+ * Build a validator for a response format. Compiling up front means an
+ * invalid schema fails the request before any tokens are generated.
+ */
+export function createStructuredOutputValidator(
+  format: ResponseFormat,
+): StructuredOutputValidator {
+  let validate: ValidateFunction | undefined;
+  if (format.type === 'json_schema') {
+    try {
+      // A fresh instance per request: Ajv keeps every schema it compiles,
+      // and rejects a second schema with the same `$id`
+      validate = new Ajv({ allErrors: true, strict: false }).compile(
+        format.schema,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid response schema: ${message}`);
+    }
+  }
+
+  return (text) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return [{ path: '', message: `Invalid JSON: ${message}` }];
+    }
+
+    if (!validate || validate(value)) return [];
+
+    return (validate.errors ?? []).map((e) => ({
+      path: e.instancePath,
+      message: e.message ?? e.keyword,
+    }));
+  };
+}
@@ -8,30 +8,30 @@ import { useEditorSessions } from './interfaces/hooks/useEditorSessions';
 import { useSetupProviders } from './models/hooks/useSetupProviders';
 import { useModels } from './models/hooks/useModels';
 import { useRequests } from './models/hooks/useRequests';
+import { useModelChanges } from './models/hooks/useModelChanges';
 import { useSyncedModels } from './models/hooks/useRegisteredModels';
 import { DashboardPage } from './models/pages/DashboardPage';
 import { SetupPage } from './models/pages/SetupPage';
+import { ActiveRequestsPage } from './models/pages/ActiveRequestsPage';
+import { AliasesPage } from './models/pages/AliasesPage';
+import { HistoryPage } from './models/pages/HistoryPage';
+import { OllamaModelsPage } from './models/pages/OllamaModelsPage';
 import { InterfacesPage } from './interfaces/pages/InterfacesPage';
 import { OnboardingPage } from './pages/OnboardingPage';
 import { DevPage } from './dev/pages/DevPage';
 import { TunnelRunner } from '../runner';
-import { syncModels, type ModelTypeMindStudio } from '../api';
+import { syncModels, toSyncModelEntry } from '../api';
 import { getApiKey, getUserId, getConfigPath } from '../config';
 import type { AppConfig } from '../dev/config/types';
-import type { Page } from './types';
-
-const MODEL_TYPE_MAP: Record<string, ModelTypeMindStudio> = {
-  text: 'llm_chat',
-  image: 'image_generation',
-  video: 'video_generation',
-};
+import type { GatewayStatus, Page } from './types';
 
 interface AppProps {
   runner: TunnelRunner;
   appConfig?: AppConfig;
+  gateway?: GatewayStatus;
 }
 
-export function App({ runner, appConfig }: AppProps) {
+export function App({ runner, appConfig, gateway }: AppProps) {
   const { exit } = useApp();
   const { stdout } = useStdout();
   const {
@@ -58,6 +58,11 @@ export function App({ runner, appConfig }: AppProps) {
     syncedModels,
     refresh: refreshSynced,
   } = useSyncedModels(connectionStatus);
+  const { recentlyAdded } = useModelChanges(() => {
+    // The runner already synced the change — just refresh what's shown
+    refreshModels();
+    refreshSynced();
+  });
   const shouldOnboard = getApiKey() === undefined || getUserId() === undefined;
   const [page, setPage] = useState<Page>(
     shouldOnboard ? 'onboarding' : appConfig ? 'dev' : 'dashboard',
@@ -105,12 +110,7 @@ export function App({ runner, appConfig }: AppProps) {
       // Sync discovered models to cloud if anything changed
       const modelsToSync = discoveredModels
         .filter((m) => !m.statusHint)
-        .map((m) => ({
-          name: m.name,
-          provider: m.provider,
-          type: MODEL_TYPE_MAP[m.capability] || 'llm_chat',
-          parameters: m.parameters,
-        }));
+        .map(toSyncModelEntry);
 
       const payload = JSON.stringify(modelsToSync);
       if (payload !== lastSyncPayloadRef.current && modelsToSync.length > 0) {
@@ -163,6 +163,18 @@ export function App({ runner, appConfig }: AppProps) {
         case 'setup':
           setPage('setup');
           break;
+        case 'requests':
+          setPage('requests');
+          break;
+        case 'aliases':
+          setPage('aliases');
+          break;
+        case 'history':
+          setPage('history');
+          break;
+        case 'ollama':
+          setPage('ollama');
+          break;
         case 'dev':
           setPage('dev');
           break;
@@ -237,7 +249,9 @@ export function App({ runner, appConfig }: AppProps) {
               modelWarnings={modelWarnings}
               providers={providers}
               providersLoading={providersLoading}
+              gateway={gateway}
               syncedNames={syncedNames}
+              recentlyAdded={recentlyAdded}
               modelsLoading={modelsLoading}
               syncStatus={syncStatus}
               editorSessions={editorSessions.sessions}
@@ -248,6 +262,39 @@ export function App({ runner, appConfig }: AppProps) {
           {page === 'setup' && (
             <SetupPage onBack={() => setPage('dashboard')} />
           )}
+          {page === 'requests' && (
+            <ActiveRequestsPage
+              requests={requests}
+              onCancel={(id) => runner.cancelRequest(id)}
+              onBack={() => setPage('dashboard')}
+            />
+          )}
+          {page === 'aliases' && (
+            <AliasesPage
+              syncedNames={syncedNames}
+              models={models}
+              onChange={() => runner.refreshModelMap().catch(() => {})}
+              onBack={() => setPage('dashboard')}
+            />
+          )}
+          {page === 'history' && (
+            <HistoryPage
+              onReplay={(request) => runner.replay(request)}
+              onBack={() => setPage('dashboard')}
+            />
+          )}
+          {page === 'ollama' && (
+            <OllamaModelsPage
+              models={models}
+              onChange={() => {
+                // Sync pulled or deleted models right away instead of
+                // waiting for the next discovery pass
+                refreshAll(true);
+                runner.refreshModelMap().catch(() => {});
+              }}
+              onBack={() => setPage('dashboard')}
+            />
+          )}
           {page === 'interfaces' && (
             <InterfacesPage
               onBack={() => setPage('dashboard')}
@@ -6,9 +6,12 @@ import { get as httpsGet } from 'node:https';
 import { get as httpGet } from 'node:http';
 import { App } from './App';
 import { TunnelRunner } from '../runner';
+import { ModelGateway } from '../gateway';
+import { getGatewaySettings } from '../config';
 import { detectAppConfig } from '../dev/config/app-config';
 import { checkForUpdate, getInstallMethod, getBinaryDownloadUrl } from '../update';
 import { UpdatePrompt } from './components/UpdatePrompt';
+import type { GatewayStatus } from './types';
 
 async function promptForUpdate(
   currentVersion: string,
@@ -106,9 +109,31 @@ export async function startTUI(): Promise<void> {
   // Create the runner instance
   const runner = new TunnelRunner();
 
+  // Serve the local OpenAI-compatible gateway when enabled
+  const gatewaySettings = getGatewaySettings();
+  const gateway = new ModelGateway(runner);
+  let gatewayStatus: GatewayStatus | undefined;
+  if (gatewaySettings.enabled) {
+    try {
+      const port = await gateway.start(
+        gatewaySettings.port,
+        gatewaySettings.host,
+      );
+      gatewayStatus = { url: `http://${gatewaySettings.host}:${port}/v1` };
+    } catch (err) {
+      gatewayStatus = {
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
   // Render the TUI with stdin configured for keyboard input
   const { waitUntilExit } = render(
-    <App runner={runner} appConfig={appConfig ?? undefined} />,
+    <App
+      runner={runner}
+      appConfig={appConfig ?? undefined}
+      gateway={gatewayStatus}
+    />,
     { exitOnCtrlC: true },
   );
 
@@ -117,4 +142,5 @@ export async function startTUI(): Promise<void> {
 
   // Ensure clean shutdown
   runner.stop();
+  await gateway.stop();
 }
@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Box, Text, useStdout } from 'ink';
 import Spinner from 'ink-spinner';
 import type { RequestLogEntry } from '../../types';
+import { decodePreviewImage, renderHalfBlocks } from '../preview-image';
 
 interface RequestLogProps {
   requests: RequestLogEntry[];
@@ -24,6 +25,39 @@ function formatDuration(ms: number): string {
   return `${(ms / 1000).toFixed(1)}s`;
 }
 
+// Live generation previews are drawn at most this many cells
+const PREVIEW_COLUMNS = 24;
+const PREVIEW_ROWS = 8;
+
+function PreviewThumbnail({ preview }: { preview: string }) {
+  const rows = useMemo(() => {
+    const image = decodePreviewImage(preview);
+    return image ? renderHalfBlocks(image, PREVIEW_COLUMNS, PREVIEW_ROWS) : [];
+  }, [preview]);
+
+  if (rows.length === 0) return null;
+  return (
+    <Box flexDirection="column" marginLeft={3}>
+      {rows.map((row, i) => (
+        <Text key={i}>{row}</Text>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * What a processing generation is doing and how far along it is
+ */
+function getProgressLine(request: RequestLogEntry): string | null {
+  const parts = [
+    request.activity,
+    request.step !== undefined && request.totalSteps
+      ? `Step ${request.step}/${request.totalSteps}`
+      : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' \u00B7 ') : null;
+}
+
 function getRequestTypeLabel(type: string): { label: string; color: string } {
   switch (type) {
     case 'llm_chat':
@@ -32,6 +66,12 @@ function getRequestTypeLabel(type: string): { label: string; color: string } {
       return { label: 'image', color: 'gray' };
     case 'video_generation':
       return { label: 'video', color: 'gray' };
+    case 'embedding':
+      return { label: 'embed', color: 'gray' };
+    case 'text_to_speech':
+      return { label: 'speech', color: 'gray' };
+    case 'speech_to_text':
+      return { label: 'transcribe', color: 'gray' };
     default:
       return { label: type, color: 'gray' };
   }
@@ -44,6 +84,15 @@ function snippetLine(content: string, maxWidth: number): string {
   return '\u2026' + flat.slice(-(maxWidth - 1));
 }
 
+function ModelName({ request }: { request: RequestLogEntry }) {
+  return (
+    <>
+      <Text color="white">{request.modelId}</Text>
+      {request.source === 'gateway' && <Text color="gray">{' (gateway)'}</Text>}
+    </>
+  );
+}
+
 function RequestItem({
   request,
   width,
@@ -57,16 +106,28 @@ function RequestItem({
   const snippetIndent = '   ';
   const snippetWidth = width - snippetIndent.length - 2; // 2 for paddingX
 
+  if (request.status === 'queued') {
+    const waited = Date.now() - request.startTime;
+    return (
+      <Box>
+        <Text color="yellow">{'\u25F7'}</Text>
+        <Text color="gray"> {time} </Text>
+        <ModelName request={request} />
+        <Text color="gray"> </Text>
+        <Text color={typeLabel.color}>{typeLabel.label}</Text>
+        <Text color="yellow"> queued #{request.queuePosition ?? '?'}</Text>
+        <Text color="gray"> {formatDuration(waited)}</Text>
+      </Box>
+    );
+  }
+
   if (request.status === 'processing') {
     const elapsed = Date.now() - request.startTime;
     const snippet =
       request.content && request.requestType === 'llm_chat'
         ? snippetLine(request.content, snippetWidth)
         : null;
-    const stepProgress =
-      request.step !== undefined && request.totalSteps
-        ? `Step ${request.step}/${request.totalSteps}`
-        : null;
+    const progressLine = getProgressLine(request);
     return (
       <Box flexDirection="column">
         <Box>
@@ -74,7 +135,10 @@ function RequestItem({
             <Spinner type="dots" />
           </Text>
           <Text color="gray"> {time} </Text>
-          <Text color="white">{request.modelId}</Text>
+          <ModelName request={request} />
+          {request.localModel && (
+            <Text color="gray">{` \u2192 ${request.localModel}`}</Text>
+          )}
           <Text color="gray"> </Text>
           <Text color={typeLabel.color}>{typeLabel.label}</Text>
           <Text color="gray"> {formatDuration(elapsed)}...</Text>
@@ -85,12 +149,13 @@ function RequestItem({
             {snippet}
           </Text>
         )}
-        {stepProgress && (
+        {progressLine && (
           <Text color="gray">
             {snippetIndent}
-            {stepProgress}
+            {progressLine}
           </Text>
         )}
+        {request.preview && <PreviewThumbnail preview={request.preview} />}
       </Box>
     );
   }
@@ -98,12 +163,24 @@ function RequestItem({
   if (request.status === 'completed') {
     const duration = request.duration ? formatDuration(request.duration) : '';
     let resultInfo = '';
-    if (request.result?.chars) {
+    if (request.result?.completionTokens) {
+      resultInfo = ` \u00B7 ${request.result.completionTokens} tokens`;
+      if (request.result.tokensPerSecond) {
+        resultInfo += ` \u00B7 ${request.result.tokensPerSecond} tok/s`;
+      }
+    } else if (request.result?.chars) {
       resultInfo = ` \u00B7 ${request.result.chars} chars`;
+    }
+    if (request.result?.toolCalls) {
+      resultInfo += ` \u00B7 ${request.result.toolCalls} tool call${request.result.toolCalls !== 1 ? 's' : ''}`;
+    } else if (request.result?.embeddings) {
+      resultInfo = ` \u00B7 ${request.result.embeddings} \u00D7 ${request.result.dimensions ?? '?'}d`;
     } else if (request.result?.imageSize) {
       resultInfo = ` \u00B7 ${Math.round(request.result.imageSize / 1024)}KB`;
     } else if (request.result?.videoSize) {
       resultInfo = ` \u00B7 ${Math.round(request.result.videoSize / 1024 / 1024)}MB`;
+    } else if (request.result?.audioSize) {
+      resultInfo = ` \u00B7 ${Math.round(request.result.audioSize / 1024)}KB`;
     }
 
     const snippet =
@@ -116,7 +193,10 @@ function RequestItem({
         <Box>
           <Text color="green">{'\u2713'}</Text>
           <Text color="gray"> {time} </Text>
-          <Text color="white">{request.modelId}</Text>
+          <ModelName request={request} />
+          {request.localModel && (
+            <Text color="gray">{` \u2192 ${request.localModel}`}</Text>
+          )}
           <Text color="gray"> </Text>
           <Text color={typeLabel.color}>{typeLabel.label}</Text>
           <Text color="gray">
@@ -135,13 +215,26 @@ function RequestItem({
     );
   }
 
+  if (request.status === 'cancelled') {
+    return (
+      <Box>
+        <Text color="gray">{'\u2298'}</Text>
+        <Text color="gray"> {time} </Text>
+        <ModelName request={request} />
+        <Text color="gray"> </Text>
+        <Text color={typeLabel.color}>{typeLabel.label}</Text>
+        <Text color="gray"> Cancelled</Text>
+      </Box>
+    );
+  }
+
   // Failed
   return (
     <Box flexDirection="column">
       <Box>
         <Text color="red">{'\u25CF'}</Text>
         <Text color="gray"> {time} </Text>
-        <Text color="white">{request.modelId}</Text>
+        <ModelName request={request} />
         <Text color="gray"> </Text>
         <Text color={typeLabel.color}>{typeLabel.label}</Text>
         <Text color="red"> {request.error || 'Failed'}</Text>
@@ -158,19 +251,31 @@ export function RequestLog({
   const { stdout } = useStdout();
   const width = stdout?.columns ?? 80;
 
-  // Get the most recent requests, with active ones always shown
+  // Get the most recent requests, with active and queued ones always shown
   const activeRequests = requests.filter((r) => r.status === 'processing');
-  const completedRequests = requests.filter((r) => r.status !== 'processing');
+  const queuedRequests = requests
+    .filter((r) => r.status === 'queued')
+    .sort((a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0));
+  const completedRequests = requests.filter(
+    (r) =>
+      r.status === 'completed' ||
+      r.status === 'failed' ||
+      r.status === 'cancelled',
+  );
 
-  // Requests with a snippet or step progress take 2 lines, others take 1
+  // Requests with a snippet or step progress take 2 lines, others take 1,
+  // plus room for a preview thumbnail while one is showing
   const itemLines = (r: RequestLogEntry) => {
+    const preview = r.status === 'processing' && r.preview ? PREVIEW_ROWS : 0;
     if (r.requestType === 'llm_chat' && r.content) return 2;
-    if (r.status === 'processing' && r.step !== undefined) return 2;
-    return 1;
+    if (r.status === 'processing' && getProgressLine(r)) return 2 + preview;
+    return 1 + preview;
   };
 
   let completedToShow: RequestLogEntry[] = [];
-  let linesUsed = activeRequests.reduce((sum, r) => sum + itemLines(r), 0);
+  let linesUsed =
+    activeRequests.reduce((sum, r) => sum + itemLines(r), 0) +
+    queuedRequests.length;
   for (
     let i = completedRequests.length - 1;
     i >= 0 && linesUsed < maxVisible;
@@ -186,7 +291,11 @@ export function RequestLog({
     }
   }
 
-  const visibleRequests = [...completedToShow, ...activeRequests];
+  const visibleRequests = [
+    ...completedToShow,
+    ...activeRequests,
+    ...queuedRequests,
+  ];
 
   return (
     <Box
@@ -203,6 +312,9 @@ export function RequestLog({
         {activeRequests.length > 0 && (
           <Text color="cyan"> ({activeRequests.length} active)</Text>
         )}
+        {queuedRequests.length > 0 && (
+          <Text color="yellow"> ({queuedRequests.length} queued)</Text>
+        )}
       </Box>
 
       {requests.length === 0 ? (
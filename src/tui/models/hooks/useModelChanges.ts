@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef } from 'react';
+import { requestEvents } from '../../../events';
+
+/** How long a newly discovered model is highlighted on the dashboard */
+const RECENT_MS = 60_000;
+
+interface UseModelChangesResult {
+  /** `provider:name` keys of models added in the last minute */
+  recentlyAdded: Set<string>;
+}
+
+/**
+ * Follow models the runner discovers or loses while the tunnel runs.
+ * `onChange` is called on every change so model lists can be refreshed.
+ */
+export function useModelChanges(onChange: () => void): UseModelChangesResult {
+  const [recentlyAdded, setRecentlyAdded] = useState<Set<string>>(new Set());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubAdded = requestEvents.onModelAdded((event) => {
+      const key = `${event.provider}:${event.name}`;
+      setRecentlyAdded((prev) => new Set(prev).add(key));
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setRecentlyAdded((prev) => {
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+      }, RECENT_MS);
+      timers.add(timer);
+      onChangeRef.current();
+    });
+
+    const unsubRemoved = requestEvents.onModelRemoved((event) => {
+      const key = `${event.provider}:${event.name}`;
+      setRecentlyAdded((prev) => {
+        if (!prev.has(key)) return prev;
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+      onChangeRef.current();
+    });
+
+    return () => {
+      unsubAdded();
+      unsubRemoved();
+      for (const timer of timers) clearTimeout(timer);
+    };
+  }, []);
+
+  return { recentlyAdded };
+}
@@ -5,6 +5,7 @@ import type { RequestLogEntry } from '../../types';
 interface UseRequestsResult {
   requests: RequestLogEntry[];
   activeCount: number;
+  queuedCount: number;
   clear: () => void;
 }
 
@@ -17,7 +18,9 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
     const interval = setInterval(() => {
       // Force re-render for active requests to update elapsed time
       setRequests((prev) => {
-        const hasActive = prev.some((r) => r.status === 'processing');
+        const hasActive = prev.some(
+          (r) => r.status === 'processing' || r.status === 'queued',
+        );
         return hasActive ? [...prev] : prev;
       });
     }, 1000);
@@ -26,6 +29,36 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
   }, []);
 
   useEffect(() => {
+    const unsubQueued = requestEvents.onQueued((event) => {
+      const existing = requestsRef.current.get(event.id);
+      if (existing) {
+        if (existing.status !== 'queued') return;
+        const updated: RequestLogEntry = {
+          ...existing,
+          queuePosition: event.position,
+          queueDepth: event.depth,
+        };
+        requestsRef.current.set(event.id, updated);
+        setRequests((prev) =>
+          prev.map((r) => (r.id === event.id ? updated : r)),
+        );
+        return;
+      }
+
+      const entry: RequestLogEntry = {
+        id: event.id,
+        modelId: event.modelId,
+        requestType: event.requestType,
+        status: 'queued',
+        startTime: event.timestamp,
+        queuePosition: event.position,
+        queueDepth: event.depth,
+        source: event.source,
+      };
+      requestsRef.current.set(event.id, entry);
+      setRequests((prev) => [...prev, entry].slice(-maxHistory));
+    });
+
     const unsubStart = requestEvents.onStart((event) => {
       const entry: RequestLogEntry = {
         id: event.id,
@@ -33,10 +66,18 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
         requestType: event.requestType,
         status: 'processing',
         startTime: event.timestamp,
+        localModel: event.localModel,
+        source: event.source,
       };
 
+      // A queued request keeps its place in the log when it starts
+      const wasQueued = requestsRef.current.has(event.id);
       requestsRef.current.set(event.id, entry);
-      setRequests((prev) => [...prev, entry].slice(-maxHistory));
+      setRequests((prev) =>
+        wasQueued
+          ? prev.map((r) => (r.id === event.id ? entry : r))
+          : [...prev, entry].slice(-maxHistory),
+      );
     });
 
     const unsubProgress = requestEvents.onProgress((event) => {
@@ -44,11 +85,14 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
       if (existing && existing.status === 'processing') {
         const updated: RequestLogEntry = {
           ...existing,
+          ...(event.host !== undefined && { host: event.host }),
           ...(event.content !== undefined && { content: event.content }),
           ...(event.step !== undefined && { step: event.step }),
           ...(event.totalSteps !== undefined && {
             totalSteps: event.totalSteps,
           }),
+          ...(event.preview !== undefined && { preview: event.preview }),
+          ...(event.activity !== undefined && { activity: event.activity }),
         };
         requestsRef.current.set(event.id, updated);
         setRequests((prev) =>
@@ -62,11 +106,16 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
       if (existing) {
         const updated: RequestLogEntry = {
           ...existing,
-          status: event.success ? 'completed' : 'failed',
+          status: event.cancelled
+            ? 'cancelled'
+            : event.success
+              ? 'completed'
+              : 'failed',
           endTime: Date.now(),
           duration: event.duration,
           result: event.result,
           error: event.error,
+          preview: undefined,
         };
 
         requestsRef.current.set(event.id, updated);
@@ -77,6 +126,7 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
     });
 
     return () => {
+      unsubQueued();
       unsubStart();
       unsubProgress();
       unsubComplete();
@@ -84,6 +134,7 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
   }, [maxHistory]);
 
   const activeCount = requests.filter((r) => r.status === 'processing').length;
+  const queuedCount = requests.filter((r) => r.status === 'queued').length;
 
   const clear = useCallback(() => {
     requestsRef.current.clear();
@@ -93,6 +144,7 @@ export function useRequests(maxHistory: number = 50): UseRequestsResult {
   return {
     requests,
     activeCount,
+    queuedCount,
     clear,
   };
 }
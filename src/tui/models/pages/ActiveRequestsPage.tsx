@@ -0,0 +1,124 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { RequestLogEntry } from '../../types';
+
+interface ActiveRequestsPageProps {
+  requests: RequestLogEntry[];
+  onCancel: (requestId: string) => void;
+  onBack: () => void;
+}
+
+function formatElapsed(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function ActiveRequestsPage({
+  requests,
+  onCancel,
+  onBack,
+}: ActiveRequestsPageProps) {
+  // Running requests first, then the queue in order
+  const pending = useMemo(
+    () => [
+      ...requests.filter((r) => r.status === 'processing'),
+      ...requests
+        .filter((r) => r.status === 'queued')
+        .sort((a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0)),
+    ],
+    [requests],
+  );
+
+  const backIndex = pending.length;
+  const [cursorIndex, setCursorIndex] = useState(0);
+
+  // Keep the cursor in range as requests finish
+  useEffect(() => {
+    setCursorIndex((prev) => Math.min(prev, backIndex));
+  }, [backIndex]);
+
+  useInput((input, key) => {
+    if (input === 'q' || key.escape) {
+      onBack();
+      return;
+    }
+    if (key.upArrow) {
+      setCursorIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setCursorIndex((prev) => Math.min(backIndex, prev + 1));
+    } else if (key.return) {
+      if (cursorIndex === backIndex) {
+        onBack();
+      } else if (pending[cursorIndex]) {
+        onCancel(pending[cursorIndex]!.id);
+      }
+    }
+  });
+
+  return (
+    <Box flexDirection="column" flexGrow={1}>
+      <Box flexDirection="column" paddingX={1} marginTop={1}>
+        <Text bold color="white" underline>
+          Active Requests
+        </Text>
+        <Text color="gray">
+          Select a request to cancel it and free up your hardware.
+        </Text>
+
+        <Box flexDirection="column" marginTop={1}>
+          {pending.length === 0 ? (
+            <Text color="gray">No requests are running or queued.</Text>
+          ) : (
+            pending.map((request, i) => {
+              const isSelected = i === cursorIndex;
+              const state =
+                request.status === 'queued'
+                  ? `queued #${request.queuePosition ?? '?'}`
+                  : request.step !== undefined && request.totalSteps
+                    ? `step ${request.step}/${request.totalSteps}`
+                    : 'running';
+              return (
+                <Box key={request.id}>
+                  <Text color={isSelected ? 'cyan' : 'white'} bold={isSelected}>
+                    {isSelected ? '\u276F' : ' '} {request.modelId}
+                  </Text>
+                  <Text color={request.status === 'queued' ? 'yellow' : 'gray'}>
+                    {' '}
+                    {state}
+                  </Text>
+                  <Text color="gray">
+                    {' '}
+                    {formatElapsed(Date.now() - request.startTime)}
+                  </Text>
+                  {request.host && (
+                    <Text color="gray">
+                      {' '}
+                      {'\u2192'} {request.host}
+                    </Text>
+                  )}
+                </Box>
+              );
+            })
+          )}
+
+          {/* Back option */}
+          <Box marginTop={1}>
+            <Text
+              color={cursorIndex === backIndex ? 'cyan' : 'white'}
+              bold={cursorIndex === backIndex}
+            >
+              {cursorIndex === backIndex ? '\u276F' : ' '} Back
+            </Text>
+          </Box>
+        </Box>
+
+        <Box marginTop={1}>
+          <Text color="gray">
+            Up/Down Navigate {'\u2022'} Enter Cancel request {'\u2022'} q/Esc
+            Back
+          </Text>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,347 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-text-input';
+import {
+  getModelAliases,
+  setModelAlias,
+  deleteModelAlias,
+} from '../../../config';
+import { resolveLocalModel } from '../../../providers';
+import type { LocalModel } from '../../../providers/types';
+
+interface AliasesPageProps {
+  /** Model names published to MindStudio */
+  syncedNames: Set<string>;
+  models: LocalModel[];
+  /** Called after an alias is saved or deleted */
+  onChange: () => void;
+  onBack: () => void;
+}
+
+function NamePickerView({
+  names,
+  onPick,
+  onBack,
+}: {
+  names: string[];
+  onPick: (name: string) => void;
+  onBack: () => void;
+}) {
+  const otherIndex = names.length;
+  const backIndex = names.length + 1;
+  const [cursorIndex, setCursorIndex] = useState(0);
+  const [typing, setTyping] = useState(false);
+  const [value, setValue] = useState('');
+
+  useInput((input, key) => {
+    if (typing) {
+      if (key.escape) setTyping(false);
+      return;
+    }
+    if (input === 'q' || key.escape) {
+      onBack();
+      return;
+    }
+    if (key.upArrow) {
+      setCursorIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setCursorIndex((prev) => Math.min(backIndex, prev + 1));
+    } else if (key.return) {
+      if (cursorIndex === backIndex) {
+        onBack();
+      } else if (cursorIndex === otherIndex) {
+        setTyping(true);
+      } else if (names[cursorIndex]) {
+        onPick(names[cursorIndex]!);
+      }
+    }
+  });
+
+  return (
+    <Box flexDirection="column" paddingX={1} marginTop={1}>
+      <Text bold color="white" underline>
+        Add Alias
+      </Text>
+      <Text color="gray">
+        Choose the published model name that should point somewhere else.
+      </Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        {names.map((name, i) => {
+          const isSelected = i === cursorIndex;
+          return (
+            <Text
+              key={name}
+              color={isSelected ? 'cyan' : 'white'}
+              bold={isSelected}
+            >
+              {isSelected ? '\u276F' : ' '} {name}
+            </Text>
+          );
+        })}
+        {typing ? (
+          <Box>
+            <Text color="cyan">{'\u276F'} Name: </Text>
+            <TextInput
+              value={value}
+              onChange={setValue}
+              onSubmit={(name) => name.trim() && onPick(name.trim())}
+              placeholder="llama3.1:8b"
+            />
+          </Box>
+        ) : (
+          <Text
+            color={cursorIndex === otherIndex ? 'cyan' : 'white'}
+            bold={cursorIndex === otherIndex}
+          >
+            {cursorIndex === otherIndex ? '\u276F' : ' '} Other name...
+          </Text>
+        )}
+        <Box marginTop={1}>
+          <Text
+            color={cursorIndex === backIndex ? 'cyan' : 'white'}
+            bold={cursorIndex === backIndex}
+          >
+            {cursorIndex === backIndex ? '\u276F' : ' '} Back
+          </Text>
+        </Box>
+      </Box>
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          {typing
+            ? 'Enter Confirm \u2022 Esc Cancel'
+            : 'Up/Down Navigate \u2022 Enter Select \u2022 q/Esc Back'}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+function TargetPickerView({
+  name,
+  models,
+  initialTargets,
+  onSave,
+  onBack,
+}: {
+  name: string;
+  models: LocalModel[];
+  initialTargets: string[];
+  onSave: (targets: string[]) => void;
+  onBack: () => void;
+}) {
+  const [targets, setTargets] = useState<string[]>(initialTargets);
+  const [cursorIndex, setCursorIndex] = useState(0);
+
+  // Keep configured targets that aren't installed right now selectable
+  const options = useMemo(() => {
+    const names = models.map((m) => m.name);
+    return [...names, ...initialTargets.filter((t) => !names.includes(t))];
+  }, [models, initialTargets]);
+
+  useInput((input, key) => {
+    if (input === 'q' || key.escape) {
+      onBack();
+      return;
+    }
+    if (key.upArrow) {
+      setCursorIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setCursorIndex((prev) => Math.min(options.length - 1, prev + 1));
+    } else if (input === ' ') {
+      const option = options[cursorIndex];
+      if (!option) return;
+      setTargets((prev) =>
+        prev.includes(option)
+          ? prev.filter((t) => t !== option)
+          : [...prev, option],
+      );
+    } else if (key.return && targets.length > 0) {
+      onSave(targets);
+    }
+  });
+
+  return (
+    <Box flexDirection="column" paddingX={1} marginTop={1}>
+      <Text bold color="white" underline>
+        Alias: {name}
+      </Text>
+      <Text color="gray">
+        Select local models in order of preference. The first one available
+        serves requests.
+      </Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        {options.length === 0 && (
+          <Text color="yellow">No local models found.</Text>
+        )}
+        {options.map((option, i) => {
+          const isSelected = i === cursorIndex;
+          const order = targets.indexOf(option);
+          const installed = models.some((m) => m.name === option);
+          return (
+            <Box key={option}>
+              <Text color={isSelected ? 'cyan' : 'white'} bold={isSelected}>
+                {isSelected ? '\u276F' : ' '}{' '}
+                {order >= 0 ? `[${order + 1}]` : '[ ]'} {option}
+              </Text>
+              {!installed && <Text color="gray"> (not installed)</Text>}
+            </Box>
+          );
+        })}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          Up/Down Navigate {'\u2022'} Space Toggle {'\u2022'} Enter Save{' '}
+          {'\u2022'} q/Esc Cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+export function AliasesPage({
+  syncedNames,
+  models,
+  onChange,
+  onBack,
+}: AliasesPageProps) {
+  const [aliases, setAliases] = useState(() => getModelAliases());
+  const [view, setView] = useState<'list' | 'name' | 'targets'>('list');
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const names = useMemo(() => Object.keys(aliases).sort(), [aliases]);
+  const addIndex = names.length;
+  const backIndex = names.length + 1;
+  const [cursorIndex, setCursorIndex] = useState(0);
+
+  useEffect(() => {
+    setCursorIndex((prev) => Math.min(prev, backIndex));
+  }, [backIndex]);
+
+  const save = (name: string, targets: string[]) => {
+    setModelAlias(name, targets);
+    setAliases(getModelAliases());
+    setView('list');
+    onChange();
+  };
+
+  useInput(
+    (input, key) => {
+      if (input === 'q' || key.escape) {
+        onBack();
+        return;
+      }
+      if (key.upArrow) {
+        setCursorIndex((prev) => Math.max(0, prev - 1));
+      } else if (key.downArrow) {
+        setCursorIndex((prev) => Math.min(backIndex, prev + 1));
+      } else if (input === 'd' && names[cursorIndex]) {
+        deleteModelAlias(names[cursorIndex]!);
+        setAliases(getModelAliases());
+        onChange();
+      } else if (key.return) {
+        if (cursorIndex === backIndex) {
+          onBack();
+        } else if (cursorIndex === addIndex) {
+          setView('name');
+        } else if (names[cursorIndex]) {
+          setEditingName(names[cursorIndex]!);
+          setView('targets');
+        }
+      }
+    },
+    { isActive: view === 'list' },
+  );
+
+  if (view === 'name') {
+    return (
+      <NamePickerView
+        names={[...syncedNames].filter((n) => !aliases[n]).sort()}
+        onPick={(name) => {
+          setEditingName(name);
+          setView('targets');
+        }}
+        onBack={() => setView('list')}
+      />
+    );
+  }
+
+  if (view === 'targets' && editingName) {
+    return (
+      <TargetPickerView
+        name={editingName}
+        models={models}
+        initialTargets={aliases[editingName] ?? []}
+        onSave={(targets) => save(editingName, targets)}
+        onBack={() => setView('list')}
+      />
+    );
+  }
+
+  return (
+    <Box flexDirection="column" flexGrow={1}>
+      <Box flexDirection="column" paddingX={1} marginTop={1}>
+        <Text bold color="white" underline>
+          Model Aliases
+        </Text>
+        <Text color="gray">
+          Serve a published model name with a different local model, e.g. after
+          renaming or re-pulling it.
+        </Text>
+
+        <Box flexDirection="column" marginTop={1}>
+          {names.length === 0 && (
+            <Text color="gray">No aliases configured.</Text>
+          )}
+          {names.map((name, i) => {
+            const isSelected = i === cursorIndex;
+            const resolved = resolveLocalModel(name, models);
+            return (
+              <Box key={name}>
+                <Text color={isSelected ? 'cyan' : 'white'} bold={isSelected}>
+                  {isSelected ? '\u276F' : ' '} {name}
+                </Text>
+                <Text color="gray"> {'\u2192'} </Text>
+                {aliases[name]!.map((target, j) => (
+                  <Text
+                    key={target}
+                    color={resolved?.name === target ? 'green' : 'gray'}
+                  >
+                    {j > 0 ? ', ' : ''}
+                    {target}
+                  </Text>
+                ))}
+                {!resolved && <Text color="yellow"> (none available)</Text>}
+              </Box>
+            );
+          })}
+
+          <Box marginTop={names.length > 0 ? 1 : 0}>
+            <Text
+              color={cursorIndex === addIndex ? 'cyan' : 'white'}
+              bold={cursorIndex === addIndex}
+            >
+              {cursorIndex === addIndex ? '\u276F' : ' '} Add alias
+            </Text>
+          </Box>
+          <Text
+            color={cursorIndex === backIndex ? 'cyan' : 'white'}
+            bold={cursorIndex === backIndex}
+          >
+            {cursorIndex === backIndex ? '\u276F' : ' '} Back
+          </Text>
+        </Box>
+
+        <Box marginTop={1}>
+          <Text color="gray">
+            Up/Down Navigate {'\u2022'} Enter Edit {'\u2022'} d Delete{' '}
+            {'\u2022'} q/Esc Back
+          </Text>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -5,13 +5,14 @@ import { RequestLog } from '../components/RequestLog';
 import { NavigationMenu } from '../../components/NavigationMenu';
 import type { MenuItem } from '../../components/NavigationMenu';
 import type { EditorSession } from '../../../api';
+import { resolveLocalModel } from '../../../providers';
 import type {
   LocalModel,
   Provider,
   ProviderSetupStatus,
   ComfyWorkflowParameterSchema,
 } from '../../../providers/types';
-import type { RequestLogEntry } from '../../types';
+import type { GatewayStatus, RequestLogEntry } from '../../types';
 
 function getWorkflowCount(model: LocalModel): number | null {
   const param = model.parameters?.find((p) => p.type === 'comfyWorkflow');
@@ -31,6 +32,12 @@ function getCapabilityLabel(capability: string): {
       return { label: 'Image Generation', color: 'gray' };
     case 'video':
       return { label: 'Video Generation', color: 'gray' };
+    case 'embedding':
+      return { label: 'Embeddings', color: 'gray' };
+    case 'speech':
+      return { label: 'Text to Speech', color: 'gray' };
+    case 'transcription':
+      return { label: 'Speech to Text', color: 'gray' };
     default:
       return { label: capability, color: 'gray' };
   }
@@ -47,7 +54,10 @@ interface DashboardPageProps {
   modelWarnings?: LocalModel[];
   providers: ProviderWithStatus[];
   providersLoading?: boolean;
+  gateway?: GatewayStatus;
   syncedNames: Set<string>;
+  /** `provider:name` keys of models discovered in the last minute */
+  recentlyAdded?: Set<string>;
   modelsLoading?: boolean;
   syncStatus?: 'idle' | 'syncing' | 'synced';
   editorSessions: EditorSession[];
@@ -61,7 +71,9 @@ export function DashboardPage({
   modelWarnings = [],
   providers,
   providersLoading,
+  gateway,
   syncedNames,
+  recentlyAdded,
   modelsLoading,
   syncStatus = 'idle',
   editorSessions,
@@ -78,9 +90,9 @@ export function DashboardPage({
   );
   const provStatusWidth = 'Local Server Running'.length;
 
-  const allModelNames = new Set(models.map((m) => m.name));
+  // Names served through an alias count as available
   const unavailableSynced = [...syncedNames].filter(
-    (name) => !allModelNames.has(name),
+    (name) => !resolveLocalModel(name, models),
   );
 
   const syncDescription =
@@ -90,8 +102,21 @@ export function DashboardPage({
         ? '\u2713 Synced'
         : 'Re-detect providers and sync models to MindStudio';
 
+  const hasPendingRequests = requests.some(
+    (r) => r.status === 'processing' || r.status === 'queued',
+  );
+
   const menuItems = useMemo((): MenuItem[] => {
     return [
+      ...(hasPendingRequests
+        ? [
+            {
+              id: 'requests',
+              label: 'Cancel Requests',
+              description: 'Stop running or queued generation requests',
+            },
+          ]
+        : []),
       {
         id: 'interfaces',
         label: 'Connect to Agent',
@@ -108,6 +133,21 @@ export function DashboardPage({
         label: 'Manage Providers',
         description: 'Manage local AI providers',
       },
+      {
+        id: 'ollama',
+        label: 'Ollama Models',
+        description: 'Pull, inspect, and delete Ollama models',
+      },
+      {
+        id: 'history',
+        label: 'Request History',
+        description: 'Browse and replay past model requests',
+      },
+      {
+        id: 'aliases',
+        label: 'Model Aliases',
+        description: 'Point published model names at different local models',
+      },
       {
         id: 'auth',
         label: 'Re-authenticate',
@@ -119,7 +159,7 @@ export function DashboardPage({
         description: 'Quit the application',
       },
     ];
-  }, [syncDescription]);
+  }, [syncDescription, hasPendingRequests]);
 
   // Compute maxVisible for request log based on terminal height
   const termHeight = (stdout?.rows ?? 24) - 4; // matches App's height calculation
@@ -134,7 +174,10 @@ export function DashboardPage({
     ? 1
     : installedProviders.length === 0
       ? 2
-      : installedProviders.length;
+      : installedProviders.reduce(
+          (lines, { status }) => lines + 1 + (status.hosts?.length ?? 0),
+          0,
+        );
   const providersLines = 3 + providerContentLines;
 
   // Open Editors section: marginTop(1) + title(1) + content gap(1) + content
@@ -228,26 +271,56 @@ export function DashboardPage({
         ) : (
           <Box flexDirection="column" marginTop={1}>
             {installedProviders.map(({ provider, status }) => {
-              const url = provider.baseUrl;
+              const url = status.hosts
+                ? `${status.hosts.filter((h) => h.healthy).length}/${status.hosts.length} hosts up`
+                : provider.baseUrl;
               const statusColor = status.running ? 'green' : 'yellow';
               const statusText = status.running
                 ? 'Local Server Running'
                 : 'Installed (not running)';
 
               return (
-                <Box key={provider.name}>
-                  <Text color="white">
-                    {provider.displayName.padEnd(provNameWidth + 2)}
-                  </Text>
-                  <Text color={statusColor}>
-                    {statusText.padEnd(provStatusWidth + 2)}
-                  </Text>
-                  {status.running && <Text color="gray">{url}</Text>}
+                <Box key={provider.name} flexDirection="column">
+                  <Box>
+                    <Text color="white">
+                      {provider.displayName.padEnd(provNameWidth + 2)}
+                    </Text>
+                    <Text color={statusColor}>
+                      {statusText.padEnd(provStatusWidth + 2)}
+                    </Text>
+                    {status.running && <Text color="gray">{url}</Text>}
+                  </Box>
+                  {status.hosts?.map((host) => (
+                    <Box key={host.baseUrl}>
+                      <Text color={host.healthy ? 'green' : 'red'}>
+                        {'  '}
+                        {host.healthy ? '\u25CF' : '\u25CB'}
+                      </Text>
+                      <Text color="gray">{` ${host.baseUrl}`}</Text>
+                      <Text color="gray">
+                        {host.healthy
+                          ? ` \u00B7 ${host.models} model${host.models !== 1 ? 's' : ''} \u00B7 ${host.active} active`
+                          : ` \u00B7 down${host.lastError ? ` (${host.lastError})` : ''}`}
+                      </Text>
+                    </Box>
+                  ))}
                 </Box>
               );
             })}
           </Box>
         )}
+        {gateway && (
+          <Box>
+            <Text color="white">
+              {'OpenAI Gateway'.padEnd(provNameWidth + 2)}
+            </Text>
+            {gateway.url ? (
+              <Text color="gray">{gateway.url}</Text>
+            ) : (
+              <Text color="red">{gateway.error}</Text>
+            )}
+          </Box>
+        )}
       </Box>
 
       {/* Models */}
@@ -296,6 +369,13 @@ export function DashboardPage({
                   <Text color="gray">{displayProvider}</Text>
                   <Text color="gray">{' - '}</Text>
                   <Text color={cap.color}>{cap.label}</Text>
+                  {model.vision && <Text color="gray">{' + Vision'}</Text>}
+                  {model.hosts && model.hosts.length > 1 && (
+                    <Text color="gray">{` (${model.hosts.length} hosts)`}</Text>
+                  )}
+                  {recentlyAdded?.has(`${model.provider}:${model.name}`) && (
+                    <Text color="cyan">{' new'}</Text>
+                  )}
                 </Box>
               );
             })}
@@ -0,0 +1,418 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import {
+  readRequestHistory,
+  type RequestHistoryEntry,
+  type RequestHistoryStatus,
+} from '../../../history';
+import { getRequestHistorySettings } from '../../../config';
+import type { LocalModelRequest, RequestResult } from '../../../api';
+import type { ReplayOutcome } from '../../../runner';
+
+interface HistoryPageProps {
+  onReplay: (request: LocalModelRequest) => Promise<ReplayOutcome>;
+  onBack: () => void;
+}
+
+const STATUS_FILTERS: Array<RequestHistoryStatus | 'all'> = [
+  'all',
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+const MAX_VISIBLE = 15;
+const PREVIEW_CHARS = 300;
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return date.toLocaleString('en-US', {
+    hour12: false,
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function getRequestTypeLabel(type: string): string {
+  switch (type) {
+    case 'llm_chat':
+      return 'text';
+    case 'image_generation':
+      return 'image';
+    case 'video_generation':
+      return 'video';
+    case 'embedding':
+      return 'embed';
+    case 'text_to_speech':
+      return 'speech';
+    case 'speech_to_text':
+      return 'transcribe';
+    default:
+      return type;
+  }
+}
+
+function getStatusIcon(status: RequestHistoryStatus): {
+  icon: string;
+  color: string;
+} {
+  switch (status) {
+    case 'completed':
+      return { icon: '\u2713', color: 'green' };
+    case 'failed':
+      return { icon: '\u2717', color: 'red' };
+    case 'cancelled':
+      return { icon: '\u25CB', color: 'gray' };
+  }
+}
+
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length <= max ? flat : flat.slice(0, max - 1) + '\u2026';
+}
+
+function describeInput(request: LocalModelRequest): string {
+  const { payload } = request;
+  if (request.requestType === 'llm_chat') {
+    const last = [...(payload.messages ?? [])]
+      .reverse()
+      .find((m) => m.role === 'user');
+    if (!last?.content) return '';
+    if (typeof last.content === 'string') return last.content;
+    return last.content
+      .map((part) => (part.type === 'text' ? part.text : '[image]'))
+      .join(' ');
+  }
+  if (request.requestType === 'embedding') {
+    const input = payload.input ?? payload.prompt ?? '';
+    return Array.isArray(input)
+      ? `${input.length} inputs: ${input.join(' | ')}`
+      : input;
+  }
+  if (request.requestType === 'speech_to_text') {
+    return payload.audio?.url ?? '[audio]';
+  }
+  return payload.prompt ?? '';
+}
+
+function describeAdditionalOutputs(count = 0): string {
+  return count > 0 ? ` (+${count} more output${count !== 1 ? 's' : ''})` : '';
+}
+
+function describeOutput(result: RequestResult): string {
+  if ('embeddings' in result) {
+    return `${result.embeddings.length} \u00D7 ${result.embeddings[0]?.length ?? 0}d embeddings`;
+  }
+  if ('imageBase64' in result) {
+    const kb = Math.round((result.imageBase64.length * 3) / 4 / 1024);
+    return `${result.mimeType} image, ${kb} KB${describeAdditionalOutputs(result.additionalOutputs?.length)}`;
+  }
+  if ('videoBase64' in result) {
+    const kb = Math.round((result.videoBase64.length * 3) / 4 / 1024);
+    return `${result.mimeType} video, ${kb} KB${describeAdditionalOutputs(result.additionalOutputs?.length)}`;
+  }
+  if ('audioBase64' in result) {
+    const kb = Math.round((result.audioBase64.length * 3) / 4 / 1024);
+    return `${result.mimeType} audio, ${kb} KB`;
+  }
+  if ('transcript' in result) {
+    const segments = result.segments?.length
+      ? ` [${result.segments.length} segment${result.segments.length !== 1 ? 's' : ''}]`
+      : '';
+    return result.transcript + segments;
+  }
+  const toolCalls = result.toolCalls?.length
+    ? ` [${result.toolCalls.length} tool call${result.toolCalls.length !== 1 ? 's' : ''}]`
+    : '';
+  return (result.content ?? '') + toolCalls;
+}
+
+function getModelLabel(entry: RequestHistoryEntry): string {
+  return entry.modelName ?? entry.request.modelId;
+}
+
+function DetailView({
+  entry,
+  onReplay,
+  onBack,
+}: {
+  entry: RequestHistoryEntry;
+  onReplay: (request: LocalModelRequest) => Promise<ReplayOutcome>;
+  onBack: () => void;
+}) {
+  const [replaying, setReplaying] = useState(false);
+  const [outcome, setOutcome] = useState<ReplayOutcome | null>(null);
+  const status = getStatusIcon(entry.status);
+  const { servedBy } = entry;
+
+  useInput((input, key) => {
+    if (replaying) return;
+    if (input === 'q' || key.escape) {
+      onBack();
+      return;
+    }
+    if (input === 'r') {
+      setReplaying(true);
+      setOutcome(null);
+      onReplay(entry.request)
+        .then(setOutcome)
+        .catch((err) =>
+          setOutcome({
+            success: false,
+            error: err instanceof Error ? err.message : String(err),
+            duration: 0,
+          }),
+        )
+        .finally(() => setReplaying(false));
+    }
+  });
+
+  return (
+    <Box flexDirection="column" paddingX={1} marginTop={1}>
+      <Text bold color="white" underline>
+        Request {entry.request.id}
+      </Text>
+
+      <Box flexDirection="column" marginTop={1}>
+        <Text>
+          <Text color="gray">Time </Text>
+          {formatTime(entry.startedAt)}
+          {entry.replayOf && (
+            <Text color="gray"> (replay of {entry.replayOf})</Text>
+          )}
+        </Text>
+        <Text>
+          <Text color="gray">Model </Text>
+          {getModelLabel(entry)}
+          <Text color="gray">
+            {' '}
+            {getRequestTypeLabel(entry.request.requestType)}
+          </Text>
+        </Text>
+        {servedBy && (
+          <Text>
+            <Text color="gray">Served by </Text>
+            {servedBy.model}
+            <Text color="gray">
+              {' '}
+              ({servedBy.provider}
+              {servedBy.host ? ` @ ${servedBy.host}` : ''})
+            </Text>
+          </Text>
+        )}
+        <Text>
+          <Text color="gray">Status </Text>
+          <Text color={status.color}>
+            {status.icon} {entry.status}
+          </Text>
+          <Text color="gray"> {formatDuration(entry.duration)}</Text>
+        </Text>
+        {entry.usage && 'completionTokens' in entry.usage && (
+          <Text>
+            <Text color="gray">Tokens </Text>
+            {entry.usage.promptTokens} in, {entry.usage.completionTokens} out
+            {entry.timing?.tokensPerSecond !== undefined && (
+              <Text color="gray"> ({entry.timing.tokensPerSecond} tok/s)</Text>
+            )}
+          </Text>
+        )}
+        {entry.error && <Text color="red">{entry.error}</Text>}
+      </Box>
+
+      <Box flexDirection="column" marginTop={1}>
+        <Text color="gray">Input</Text>
+        <Text>{truncate(describeInput(entry.request), PREVIEW_CHARS)}</Text>
+      </Box>
+
+      {entry.output && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text color="gray">Output</Text>
+          <Text>{truncate(describeOutput(entry.output), PREVIEW_CHARS)}</Text>
+        </Box>
+      )}
+
+      {(replaying || outcome) && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text color="gray">Replay</Text>
+          {replaying ? (
+            <Box>
+              <Text color="cyan">
+                <Spinner type="dots" />
+              </Text>
+              <Text> Running locally...</Text>
+            </Box>
+          ) : outcome?.success ? (
+            <>
+              <Text color="green">
+                {'\u2713'} Completed in {formatDuration(outcome.duration)}
+              </Text>
+              {outcome.result && (
+                <Text>
+                  {truncate(describeOutput(outcome.result), PREVIEW_CHARS)}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text color="red">
+              {'\u2717'} {outcome?.error}
+            </Text>
+          )}
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">r Replay locally {'\u2022'} q/Esc Back</Text>
+      </Box>
+    </Box>
+  );
+}
+
+export function HistoryPage({ onReplay, onBack }: HistoryPageProps) {
+  const [entries, setEntries] = useState(() => readRequestHistory());
+  const [selected, setSelected] = useState<RequestHistoryEntry | null>(null);
+  const [modelFilter, setModelFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] =
+    useState<(typeof STATUS_FILTERS)[number]>('all');
+  const [cursorIndex, setCursorIndex] = useState(0);
+
+  const modelNames = useMemo(
+    () => [...new Set(entries.map(getModelLabel))].sort(),
+    [entries],
+  );
+
+  const filtered = useMemo(
+    () =>
+      entries.filter(
+        (e) =>
+          (!modelFilter || getModelLabel(e) === modelFilter) &&
+          (statusFilter === 'all' || e.status === statusFilter),
+      ),
+    [entries, modelFilter, statusFilter],
+  );
+
+  useEffect(() => {
+    setCursorIndex((prev) => Math.min(prev, Math.max(0, filtered.length - 1)));
+  }, [filtered.length]);
+
+  useInput(
+    (input, key) => {
+      if (input === 'q' || key.escape) {
+        onBack();
+        return;
+      }
+      if (key.upArrow) {
+        setCursorIndex((prev) => Math.max(0, prev - 1));
+      } else if (key.downArrow) {
+        setCursorIndex((prev) => Math.min(filtered.length - 1, prev + 1));
+      } else if (key.return && filtered[cursorIndex]) {
+        setSelected(filtered[cursorIndex]!);
+      } else if (input === 'm') {
+        // Cycle: all models, then each model in turn
+        const idx = modelFilter ? modelNames.indexOf(modelFilter) : -1;
+        setModelFilter(modelNames[idx + 1] ?? null);
+      } else if (input === 's') {
+        const idx = STATUS_FILTERS.indexOf(statusFilter);
+        setStatusFilter(STATUS_FILTERS[(idx + 1) % STATUS_FILTERS.length]!);
+      }
+    },
+    { isActive: !selected },
+  );
+
+  if (selected) {
+    return (
+      <DetailView
+        entry={selected}
+        onReplay={onReplay}
+        onBack={() => {
+          // Pick up replays that were just logged
+          setEntries(readRequestHistory());
+          setSelected(null);
+        }}
+      />
+    );
+  }
+
+  // Keep the cursor in view
+  const start = Math.max(
+    0,
+    Math.min(
+      cursorIndex - Math.floor(MAX_VISIBLE / 2),
+      filtered.length - MAX_VISIBLE,
+    ),
+  );
+  const visible = filtered.slice(start, start + MAX_VISIBLE);
+
+  return (
+    <Box flexDirection="column" flexGrow={1}>
+      <Box flexDirection="column" paddingX={1} marginTop={1}>
+        <Text bold color="white" underline>
+          Request History
+        </Text>
+        <Text color="gray">
+          Model: <Text color="white">{modelFilter ?? 'all'}</Text>
+          {'  '}Status: <Text color="white">{statusFilter}</Text>
+          {'  '}({filtered.length} of {entries.length})
+        </Text>
+
+        <Box flexDirection="column" marginTop={1}>
+          {filtered.length === 0 ? (
+            <Text color="gray">
+              {getRequestHistorySettings().enabled
+                ? 'No requests logged yet.'
+                : 'Request history is off. Set requestHistory.enabled in the config to log requests.'}
+            </Text>
+          ) : (
+            visible.map((entry, i) => {
+              const isSelected = start + i === cursorIndex;
+              const status = getStatusIcon(entry.status);
+              const localModel =
+                entry.servedBy && entry.servedBy.model !== entry.modelName
+                  ? entry.servedBy.model
+                  : null;
+              return (
+                <Box key={`${entry.request.id}:${entry.ts}`}>
+                  <Text color={isSelected ? 'cyan' : 'white'} bold={isSelected}>
+                    {isSelected ? '\u276F' : ' '}{' '}
+                  </Text>
+                  <Text color={status.color}>{status.icon}</Text>
+                  <Text color="gray"> {formatTime(entry.startedAt)} </Text>
+                  <Text color={isSelected ? 'cyan' : 'white'}>
+                    {getModelLabel(entry)}
+                  </Text>
+                  {localModel && (
+                    <Text color="gray">
+                      {' '}
+                      {'\u2192'} {localModel}
+                    </Text>
+                  )}
+                  <Text color="gray">
+                    {' '}
+                    {getRequestTypeLabel(entry.request.requestType)}{' '}
+                    {formatDuration(entry.duration)}
+                  </Text>
+                  {entry.replayOf && <Text color="gray"> (replay)</Text>}
+                </Box>
+              );
+            })
+          )}
+        </Box>
+
+        <Box marginTop={1}>
+          <Text color="gray">
+            Up/Down Navigate {'\u2022'} Enter Details {'\u2022'} m Model{' '}
+            {'\u2022'} s Status {'\u2022'} q/Esc Back
+          </Text>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,546 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import Spinner from 'ink-spinner';
+import TextInput from 'ink-text-input';
+import ollama, {
+  type OllamaModelDetails,
+  type PullProgress,
+} from '../../../providers/ollama';
+import { searchLibrary } from '../../../providers/ollama/library';
+import type { LocalModel } from '../../../providers/types';
+
+interface OllamaModelsPageProps {
+  /** Every discovered model; only Ollama's are shown */
+  models: LocalModel[];
+  /** Called after a model is pulled or deleted, so it can be synced */
+  onChange: () => void;
+  onBack: () => void;
+}
+
+const MAX_RESULTS = 10;
+const BAR_WIDTH = 30;
+// Pull updates arrive many times a second; redraw at most this often
+const PROGRESS_INTERVAL_MS = 200;
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1e6)} MB`;
+}
+
+function progressBar(completed: number, total: number): string {
+  const filled = Math.round((Math.min(completed, total) / total) * BAR_WIDTH);
+  return '\u2588'.repeat(filled) + '\u2591'.repeat(BAR_WIDTH - filled);
+}
+
+function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function DetailView({ model, onBack }: { model: string; onBack: () => void }) {
+  const { stdout } = useStdout();
+  const [details, setDetails] = useState<OllamaModelDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollOffset, setScrollOffset] = useState(0);
+
+  useEffect(() => {
+    ollama
+      .getModelDetails(model)
+      .then(setDetails)
+      .catch((err) => setError(getErrorMessage(err)));
+  }, [model]);
+
+  // Header(~10) + title and summary(6) + hint(2) + App's margin(4)
+  const viewHeight = Math.max(5, (stdout?.rows ?? 24) - 22);
+
+  const lines = useMemo(() => {
+    if (!details) return [];
+    const section = (title: string, body: string) =>
+      body.trim() ? [title, ...body.trimEnd().split('\n'), ''] : [];
+    return [
+      ...section('Parameters', details.parameters),
+      ...section('License', details.license),
+      ...section('Modelfile', details.modelfile),
+    ];
+  }, [details]);
+  const sectionTitles = new Set(['Parameters', 'License', 'Modelfile']);
+  const maxScroll = Math.max(0, lines.length - viewHeight);
+
+  useInput((input, key) => {
+    if (input === 'q' || key.escape || key.return) {
+      onBack();
+      return;
+    }
+    if (key.upArrow) {
+      setScrollOffset((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setScrollOffset((prev) => Math.min(maxScroll, prev + 1));
+    } else if (key.pageUp) {
+      setScrollOffset((prev) => Math.max(0, prev - viewHeight));
+    } else if (key.pageDown) {
+      setScrollOffset((prev) => Math.min(maxScroll, prev + viewHeight));
+    }
+  });
+
+  return (
+    <Box flexDirection="column" paddingX={1} marginTop={1}>
+      <Text bold color="white" underline>
+        {model}
+      </Text>
+
+      {error ? (
+        <Text color="red">{error}</Text>
+      ) : !details ? (
+        <Box>
+          <Text color="cyan">
+            <Spinner type="dots" />
+          </Text>
+          <Text> Loading model details...</Text>
+        </Box>
+      ) : (
+        <>
+          <Box flexDirection="column" marginTop={1}>
+            <Text>
+              <Text color="gray">Family </Text>
+              {details.family ?? 'unknown'}
+              {details.parameterSize && ` \u00B7 ${details.parameterSize}`}
+              {details.quantization && ` \u00B7 ${details.quantization}`}
+            </Text>
+            <Text>
+              <Text color="gray">Context </Text>
+              {details.contextLength
+                ? `${details.contextLength.toLocaleString('en-US')} tokens`
+                : 'unknown'}
+            </Text>
+            {details.capabilities.length > 0 && (
+              <Text>
+                <Text color="gray">Capabilities </Text>
+                {details.capabilities.join(', ')}
+              </Text>
+            )}
+          </Box>
+
+          <Box flexDirection="column" marginTop={1} height={viewHeight}>
+            {lines
+              .slice(scrollOffset, scrollOffset + viewHeight)
+              .map((line, i) => (
+                <Text
+                  key={scrollOffset + i}
+                  color={sectionTitles.has(line) ? 'gray' : undefined}
+                  wrap="truncate-end"
+                >
+                  {line || ' '}
+                </Text>
+              ))}
+          </Box>
+        </>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          Up/Down Scroll {'\u2022'} Enter/q/Esc Back
+          {maxScroll > 0 &&
+            ` \u2022 ${Math.round((scrollOffset / maxScroll) * 100)}%`}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+interface LayerProgress {
+  total: number;
+  completed: number;
+}
+
+function PullView({
+  installed,
+  onPulled,
+  onBack,
+}: {
+  installed: Set<string>;
+  onPulled: () => void;
+  onBack: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [cursorIndex, setCursorIndex] = useState(0);
+  const [pulling, setPulling] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+  const [layers, setLayers] = useState<Array<[string, LayerProgress]>>([]);
+  const [outcome, setOutcome] = useState<{
+    success: boolean;
+    message: string;
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort a pull still running when the page is left
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Offer the typed name itself, so tags outside the list can be pulled
+  const options = useMemo(() => {
+    const results = searchLibrary(query);
+    const typed = query.trim();
+    return typed && !results.some((r) => r.model === typed)
+      ? [{ model: typed, description: 'Pull by name' }, ...results]
+      : results;
+  }, [query]);
+
+  useEffect(() => {
+    setCursorIndex(0);
+  }, [query]);
+
+  const pull = (model: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const progress = new Map<string, LayerProgress>();
+    let latestStatus = 'pulling manifest';
+
+    setPulling(model);
+    setOutcome(null);
+    setStatus(latestStatus);
+    setLayers([]);
+
+    const flush = () => {
+      setStatus(latestStatus);
+      setLayers([...progress]);
+    };
+    const timer = setInterval(flush, PROGRESS_INTERVAL_MS);
+
+    ollama
+      .pullModel(
+        model,
+        (update: PullProgress) => {
+          latestStatus = update.status;
+          if (update.digest && update.total) {
+            progress.set(update.digest, {
+              total: update.total,
+              completed: update.completed ?? 0,
+            });
+          }
+        },
+        controller.signal,
+      )
+      .then(() => {
+        setOutcome({ success: true, message: `Pulled ${model}` });
+        onPulled();
+      })
+      .catch((err) => {
+        setOutcome({
+          success: false,
+          message: controller.signal.aborted
+            ? 'Pull cancelled'
+            : getErrorMessage(err),
+        });
+      })
+      .finally(() => {
+        clearInterval(timer);
+        flush();
+        abortRef.current = null;
+        setPulling(null);
+      });
+  };
+
+  useInput((input, key) => {
+    if (pulling) {
+      if (key.escape) abortRef.current?.abort();
+      return;
+    }
+    if (key.escape) {
+      onBack();
+      return;
+    }
+    if (key.upArrow) {
+      setCursorIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setCursorIndex((prev) => Math.min(options.length - 1, prev + 1));
+    } else if (key.return && options[cursorIndex]) {
+      pull(options[cursorIndex]!.model);
+    }
+  });
+
+  // Keep the cursor in view
+  const start = Math.max(
+    0,
+    Math.min(
+      cursorIndex - Math.floor(MAX_RESULTS / 2),
+      options.length - MAX_RESULTS,
+    ),
+  );
+
+  const total = layers.reduce((sum, [, layer]) => sum + layer.total, 0);
+  const completed = layers.reduce((sum, [, layer]) => sum + layer.completed, 0);
+
+  return (
+    <Box flexDirection="column" paddingX={1} marginTop={1}>
+      <Text bold color="white" underline>
+        Pull a Model
+      </Text>
+      <Text color="gray">
+        Search popular models, or type any tag from ollama.com/library.
+      </Text>
+
+      <Box marginTop={1}>
+        <Text color={pulling ? 'gray' : 'cyan'}>Search: </Text>
+        <TextInput
+          value={query}
+          onChange={setQuery}
+          focus={!pulling}
+          placeholder="llama3.2:3b"
+        />
+      </Box>
+
+      {pulling || outcome ? (
+        <Box flexDirection="column" marginTop={1}>
+          {pulling && (
+            <Box>
+              <Text color="cyan">
+                <Spinner type="dots" />
+              </Text>
+              <Text>
+                {' '}
+                {pulling}: {status}
+              </Text>
+            </Box>
+          )}
+          {layers.map(([digest, layer]) => (
+            <Text key={digest}>
+              <Text color="gray">
+                {digest.replace(/^sha256:/, '').slice(0, 12)}{' '}
+              </Text>
+              <Text color={layer.completed >= layer.total ? 'green' : 'cyan'}>
+                {progressBar(layer.completed, layer.total)}
+              </Text>
+              <Text color="gray">
+                {' '}
+                {Math.floor((layer.completed / layer.total) * 100)}%{' '}
+                {formatSize(layer.completed)}/{formatSize(layer.total)}
+              </Text>
+            </Text>
+          ))}
+          {layers.length > 1 && (
+            <Text color="gray">
+              Total {formatSize(completed)}/{formatSize(total)}
+            </Text>
+          )}
+          {outcome && (
+            <Text color={outcome.success ? 'green' : 'red'}>
+              {outcome.success ? '\u2713' : '\u2717'} {outcome.message}
+            </Text>
+          )}
+        </Box>
+      ) : null}
+
+      {!pulling && (
+        <Box flexDirection="column" marginTop={1}>
+          {options.length === 0 && (
+            <Text color="gray">No matching models.</Text>
+          )}
+          {options.slice(start, start + MAX_RESULTS).map((option, i) => {
+            const isSelected = start + i === cursorIndex;
+            return (
+              <Box key={option.model}>
+                <Text color={isSelected ? 'cyan' : 'white'} bold={isSelected}>
+                  {isSelected ? '\u276F' : ' '} {option.model}
+                </Text>
+                <Text color="gray"> {option.description}</Text>
+                {installed.has(option.model) && (
+                  <Text color="green"> (installed)</Text>
+                )}
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color="gray">
+          {pulling
+            ? 'Esc Cancel pull'
+            : `Type to search ${'\u2022'} Up/Down Navigate ${'\u2022'} Enter Pull ${'\u2022'} Esc Back`}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+export function OllamaModelsPage({
+  models,
+  onChange,
+  onBack,
+}: OllamaModelsPageProps) {
+  const [running, setRunning] = useState<boolean | null>(null);
+  const [view, setView] = useState<'list' | 'details' | 'pull'>('list');
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [message, setMessage] = useState<{
+    text: string;
+    color: string;
+  } | null>(null);
+
+  useEffect(() => {
+    ollama.isRunning().then(setRunning);
+  }, []);
+
+  const installed = useMemo(
+    () =>
+      models
+        .filter((m) => m.provider === ollama.name)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [models],
+  );
+  const pullIndex = installed.length;
+  const backIndex = installed.length + 1;
+  const [cursorIndex, setCursorIndex] = useState(0);
+
+  useEffect(() => {
+    setCursorIndex((prev) => Math.min(prev, backIndex));
+  }, [backIndex]);
+
+  const deleteModel = (name: string) => {
+    setConfirmDelete(null);
+    ollama
+      .deleteModel(name)
+      .then(() => {
+        setMessage({ text: `Deleted ${name}`, color: 'green' });
+        onChange();
+      })
+      .catch((err) => setMessage({ text: getErrorMessage(err), color: 'red' }));
+  };
+
+  useInput(
+    (input, key) => {
+      if (confirmDelete) {
+        if (input === 'y') {
+          deleteModel(confirmDelete);
+        } else {
+          setConfirmDelete(null);
+        }
+        return;
+      }
+      if (input === 'q' || key.escape) {
+        onBack();
+        return;
+      }
+      if (!running) return;
+      setMessage(null);
+      if (key.upArrow) {
+        setCursorIndex((prev) => Math.max(0, prev - 1));
+      } else if (key.downArrow) {
+        setCursorIndex((prev) => Math.min(backIndex, prev + 1));
+      } else if (input === 'p') {
+        setView('pull');
+      } else if (input === 'd' && installed[cursorIndex]) {
+        setConfirmDelete(installed[cursorIndex]!.name);
+      } else if (key.return) {
+        if (cursorIndex === backIndex) {
+          onBack();
+        } else if (cursorIndex === pullIndex) {
+          setView('pull');
+        } else if (installed[cursorIndex]) {
+          setSelectedModel(installed[cursorIndex]!.name);
+          setView('details');
+        }
+      }
+    },
+    { isActive: view === 'list' },
+  );
+
+  if (view === 'details' && selectedModel) {
+    return <DetailView model={selectedModel} onBack={() => setView('list')} />;
+  }
+
+  if (view === 'pull') {
+    return (
+      <PullView
+        installed={new Set(installed.map((m) => m.name))}
+        onPulled={onChange}
+        onBack={() => setView('list')}
+      />
+    );
+  }
+
+  return (
+    <Box flexDirection="column" flexGrow={1}>
+      <Box flexDirection="column" paddingX={1} marginTop={1}>
+        <Text bold color="white" underline>
+          Ollama Models
+        </Text>
+        <Text color="gray">
+          Pull, inspect, and remove models on {ollama.baseUrl}. Changes are
+          synced to MindStudio automatically.
+        </Text>
+
+        {running === null ? (
+          <Box marginTop={1}>
+            <Text color="cyan">
+              <Spinner type="dots" />
+            </Text>
+            <Text> Connecting to Ollama...</Text>
+          </Box>
+        ) : !running ? (
+          <Box flexDirection="column" marginTop={1}>
+            <Text color="yellow">Ollama isn't running.</Text>
+            <Text color="gray">
+              Start it with `ollama serve`, or see Manage Providers for setup.
+            </Text>
+          </Box>
+        ) : (
+          <Box flexDirection="column" marginTop={1}>
+            {installed.length === 0 && (
+              <Text color="gray">No models installed yet.</Text>
+            )}
+            {installed.map((model, i) => {
+              const isSelected = i === cursorIndex;
+              return (
+                <Box key={model.name}>
+                  <Text color={isSelected ? 'cyan' : 'white'} bold={isSelected}>
+                    {isSelected ? '\u276F' : ' '} {model.name}
+                  </Text>
+                  <Text color="gray">
+                    {model.size !== undefined && ` ${formatSize(model.size)}`}
+                    {model.parameterSize && ` \u00B7 ${model.parameterSize}`}
+                    {model.quantization && ` \u00B7 ${model.quantization}`}
+                  </Text>
+                </Box>
+              );
+            })}
+
+            <Box marginTop={installed.length > 0 ? 1 : 0}>
+              <Text
+                color={cursorIndex === pullIndex ? 'cyan' : 'white'}
+                bold={cursorIndex === pullIndex}
+              >
+                {cursorIndex === pullIndex ? '\u276F' : ' '} Pull a model...
+              </Text>
+            </Box>
+            <Text
+              color={cursorIndex === backIndex ? 'cyan' : 'white'}
+              bold={cursorIndex === backIndex}
+            >
+              {cursorIndex === backIndex ? '\u276F' : ' '} Back
+            </Text>
+          </Box>
+        )}
+
+        {confirmDelete ? (
+          <Box marginTop={1}>
+            <Text color="yellow">
+              Delete {confirmDelete}? This removes it from disk. (y/N)
+            </Text>
+          </Box>
+        ) : (
+          message && (
+            <Box marginTop={1}>
+              <Text color={message.color}>{message.text}</Text>
+            </Box>
+          )
+        )}
+
+        <Box marginTop={1}>
+          <Text color="gray">
+            Up/Down Navigate {'\u2022'} Enter Details {'\u2022'} p Pull{' '}
+            {'\u2022'} d Delete {'\u2022'} q/Esc Back
+          </Text>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Image decoding for generation previews in the request log. Previews are
+ * decoded with jpeg-js and pngjs and box-averaged down to a thumbnail a
+ * couple of dozen terminal cells wide.
+ */
+
+import jpeg from 'jpeg-js';
+import pngjs from 'pngjs';
+import chalk from 'chalk';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** RGB triplets, row by row */
+  pixels: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+// Previews are small; anything bigger is more likely corrupt than useful
+const MAX_PREVIEW_MEGAPIXELS = 16;
+
+function decodePng(data: Buffer): DecodedImage {
+  // Always decoded to 8-bit RGBA, whatever the source format
+  const png = pngjs.PNG.sync.read(data);
+  const pixels = new Uint8Array(png.width * png.height * 3);
+  for (let i = 0, j = 0; j < pixels.length; i += 4, j += 3) {
+    pixels[j] = png.data[i]!;
+    pixels[j + 1] = png.data[i + 1]!;
+    pixels[j + 2] = png.data[i + 2]!;
+  }
+  return { width: png.width, height: png.height, pixels };
+}
+
+function decodeJpeg(data: Buffer): DecodedImage {
+  const image = jpeg.decode(data, {
+    useTArray: true,
+    formatAsRGBA: false,
+    maxResolutionInMP: MAX_PREVIEW_MEGAPIXELS,
+    maxMemoryUsageInMB: 256,
+  });
+  return { width: image.width, height: image.height, pixels: image.data };
+}
+
+/**
+ * Decode a base64 PNG or JPEG. Returns null for anything else (e.g. WebP)
+ * or corrupt data.
+ */
+export function decodePreviewImage(base64: string): DecodedImage | null {
+  try {
+    const data = Buffer.from(base64, 'base64');
+    if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return decodePng(data);
+    if (data[0] === 0xff && data[1] === 0xd8) return decodeJpeg(data);
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render an image as rows of half-block characters: each cell shows two
+ * pixels, the upper as foreground and the lower as background. Pixels are
+ * box-averaged down to `columns` wide, keeping the aspect ratio.
+ */
+export function renderHalfBlocks(
+  image: DecodedImage,
+  columns: number,
+  maxRows: number,
+): string[] {
+  const scale = Math.max(
+    image.width / columns,
+    image.height / (maxRows * 2),
+    1,
+  );
+  const outWidth = Math.max(1, Math.round(image.width / scale));
+  const outHeight = Math.max(2, Math.round(image.height / scale / 2) * 2);
+
+  const average = (x: number, y: number): [number, number, number] => {
+    const x0 = Math.floor((x * image.width) / outWidth);
+    const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * image.width) / outWidth));
+    const y0 = Math.floor((y * image.height) / outHeight);
+    const y1 = Math.max(
+      y0 + 1,
+      Math.floor(((y + 1) * image.height) / outHeight),
+    );
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let n = 0;
+    for (let py = y0; py < Math.min(y1, image.height); py++) {
+      for (let px = x0; px < Math.min(x1, image.width); px++) {
+        const i = (py * image.width + px) * 3;
+        r += image.pixels[i]!;
+        g += image.pixels[i + 1]!;
+        b += image.pixels[i + 2]!;
+        n++;
+      }
+    }
+    n = Math.max(n, 1);
+    return [Math.round(r / n), Math.round(g / n), Math.round(b / n)];
+  };
+
+  const rows: string[] = [];
+  for (let y = 0; y < outHeight; y += 2) {
+    let row = '';
+    for (let x = 0; x < outWidth; x++) {
+      const [r1, g1, b1] = average(x, y);
+      const [r2, g2, b2] = average(x, y + 1);
+      row += chalk.rgb(r1, g1, b1).bgRgb(r2, g2, b2)('\u2580');
+    }
+    rows.push(row);
+  }
+  return rows;
+}
@@ -7,7 +7,23 @@ export type ConnectionStatus =
   | 'disconnected'
   | 'error';
 
-export type Page = 'dashboard' | 'setup' | 'interfaces' | 'onboarding' | 'dev';
+export type Page =
+  | 'dashboard'
+  | 'setup'
+  | 'interfaces'
+  | 'onboarding'
+  | 'dev'
+  | 'requests'
+  | 'aliases'
+  | 'history'
+  | 'ollama';
+
+/** The local OpenAI-compatible gateway, when enabled */
+export interface GatewayStatus {
+  url?: string;
+  /** Why the gateway failed to start, e.g. the port is taken */
+  error?: string;
+}
 
 export interface ProviderStatus {
   provider: Provider;
@@ -17,18 +33,44 @@ export interface ProviderStatus {
 export interface RequestLogEntry {
   id: string;
   modelId: string;
-  requestType: 'llm_chat' | 'image_generation' | 'video_generation';
-  status: 'processing' | 'completed' | 'failed';
+  requestType:
+    | 'llm_chat'
+    | 'image_generation'
+    | 'video_generation'
+    | 'embedding'
+    | 'text_to_speech'
+    | 'speech_to_text';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
   startTime: number;
+  /** 1-based position in the local queue while status is 'queued' */
+  queuePosition?: number;
+  queueDepth?: number;
+  /** Local model serving the request, when an alias resolved it */
+  localModel?: string;
+  /** Set for requests that came in through the local gateway */
+  source?: 'gateway';
+  /** The pooled host serving the request */
+  host?: string;
   endTime?: number;
   duration?: number;
   content?: string;
   step?: number;
   totalSteps?: number;
+  /** Latest in-progress image (base64), while the request is processing */
+  preview?: string;
+  /** What the backend is doing, e.g. its queue position or the node running */
+  activity?: string;
   result?: {
     chars?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    tokensPerSecond?: number;
+    toolCalls?: number;
+    embeddings?: number;
+    dimensions?: number;
     imageSize?: number;
     videoSize?: number;
+    audioSize?: number;
   };
   error?: string;
 }